@@ -15,6 +15,9 @@ export default {
     "^.+\\.ts?$": "ts-jest",
   },
   moduleFileExtensions: ["ts", "js", "json", "node"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/orchestrator/src/$1",
+  },
   clearMocks: true, // clear mocks before every test
   resetMocks: false, // reset mock state before every test
   testMatch: [
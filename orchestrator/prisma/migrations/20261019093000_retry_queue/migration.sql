@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Events_chain_status_idx" ON "Events"("chain", "status");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Events" ADD COLUMN     "requestId" TEXT;
+
+-- Backfill request ids of previously indexed events
+UPDATE "Events" SET "requestId" = CASE
+    WHEN "chain" LIKE 'APTOS-%' THEN "eventData"::jsonb ->> 'request_id'
+    WHEN "chain" LIKE 'ROOCH-%' THEN "decoded_event_data"::jsonb -> 'value' ->> 'request_id'
+    ELSE "decoded_event_data"::jsonb ->> 'request_id'
+END;
+
+-- CreateIndex
+CREATE INDEX "Events_requestId_idx" ON "Events"("requestId");
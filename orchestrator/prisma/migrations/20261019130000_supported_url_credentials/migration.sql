@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "SupportedUrl" ADD COLUMN     "credentials" JSONB NOT NULL DEFAULT '{}';
+
+-- The auth scheme name was previously stored in "authKey"
+UPDATE "SupportedUrl" SET "authType" = "authKey" WHERE "authKey" IN ('BEARER', 'OAUTH1.0', 'OAUTH2.0');
+
+-- Any other value was the access token itself, used as a Bearer token
+UPDATE "SupportedUrl" SET "credentials" = jsonb_build_object('token', "authKey")
+WHERE "authKey" IS NOT NULL AND "authKey" NOT IN ('BEARER', 'OAUTH1.0', 'OAUTH2.0');
+
+-- DropIndex
+DROP INDEX "SupportedUrl_authKey_idx";
+
+-- AlterTable
+ALTER TABLE "SupportedUrl" DROP COLUMN "authKey";
+
+-- CreateIndex
+CREATE INDEX "SupportedUrl_authType_idx" ON "SupportedUrl"("authType");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Events" ADD COLUMN     "signature" TEXT;
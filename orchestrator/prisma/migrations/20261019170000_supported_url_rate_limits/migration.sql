@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SupportedUrl" ADD COLUMN     "burst" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "dailyQuota" INTEGER;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Events" ADD COLUMN     "cached" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "SupportedUrl" ADD COLUMN     "cacheTtl" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ResponseCache" (
+    "key" TEXT NOT NULL,
+    "status" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ResponseCache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "ResponseCache_expiresAt_idx" ON "ResponseCache"("expiresAt");
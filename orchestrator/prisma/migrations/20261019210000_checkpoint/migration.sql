@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "Checkpoint" (
+    "id" TEXT NOT NULL,
+    "chain" TEXT NOT NULL,
+    "oracleAddress" TEXT NOT NULL,
+    "cursor" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updateAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Checkpoint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Checkpoint_chain_oracleAddress_key" ON "Checkpoint"("chain", "oracleAddress");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "RequestPolicy" (
+    "id" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "methods" TEXT[],
+    "allowedHeaders" TEXT[],
+    "strippedHeaders" TEXT[],
+    "bodySchema" JSONB,
+    "models" TEXT[],
+    "maxBodySize" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updateAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RequestPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RequestPolicy_domain_path_key" ON "RequestPolicy"("domain", "path");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "SupportedUrl" ADD COLUMN     "maxResponseSize" INTEGER;
+
+-- AlterTable
+ALTER TABLE "RequestPolicy" ADD COLUMN     "maxResponseSize" INTEGER,
+ADD COLUMN     "oversizedResponse" TEXT NOT NULL DEFAULT 'reject';
@@ -0,0 +1,11 @@
+-- Keep the latest record of the events saved more than once
+DELETE FROM "Events" a
+USING "Events" b
+WHERE a."chain" = b."chain"
+  AND a."eventHandleId" = b."eventHandleId"
+  AND a."eventSeq" = b."eventSeq"
+  AND a."eventIndex" = b."eventIndex"
+  AND (a."updateAt", a."id") < (b."updateAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Events_chain_eventHandleId_eventSeq_eventIndex_key" ON "Events"("chain", "eventHandleId", "eventSeq", "eventIndex");
@@ -0,0 +1,80 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+export interface AttestationPayload {
+  request_id: string;
+  url: string;
+  pick: string;
+  status: number;
+  result: string;
+}
+
+const strip0x = (hex: string) => (hex.startsWith("0x") ? hex.slice(2) : hex);
+
+/**
+ * Encodes the attested fields of a fulfillment into the message that gets signed.
+ *
+ * The message is the JSON array `[request_id, url, pick, status, result]`, where `result` is the exact
+ * string submitted on-chain.
+ *
+ * @param {AttestationPayload} payload - The fulfillment to attest.
+ * @returns {string} The message to sign.
+ */
+export const encodeAttestation = (payload: AttestationPayload): string =>
+  JSON.stringify([payload.request_id, payload.url, payload.pick, payload.status, payload.result]);
+
+const digest = (payload: AttestationPayload) => sha256(utf8ToBytes(encodeAttestation(payload)));
+
+/**
+ * Signs a fulfillment with the orchestrator's ECDSA (secp256k1) key.
+ *
+ * @param {AttestationPayload} payload - The fulfillment to attest.
+ * @param {string} privateKey - Hex encoded secp256k1 private key.
+ * @returns {string} The 65 bytes `r || s || v` signature, hex encoded with a `0x` prefix.
+ */
+export const signAttestation = (payload: AttestationPayload, privateKey: string): string => {
+  const signature = secp256k1.sign(digest(payload), strip0x(privateKey));
+  return `0x${signature.toCompactHex()}${signature.recovery.toString(16).padStart(2, "0")}`;
+};
+
+/**
+ * Derives the public key consumers use to verify attestations.
+ *
+ * @param {string} privateKey - Hex encoded secp256k1 private key.
+ * @returns {string} The compressed public key, hex encoded with a `0x` prefix.
+ */
+export const getAttestationPublicKey = (privateKey: string): string =>
+  `0x${bytesToHex(secp256k1.getPublicKey(strip0x(privateKey), true))}`;
+
+/**
+ * Verifies that a fulfillment was attested by the holder of the given public key.
+ *
+ * @param {AttestationPayload} payload - The fulfillment, as submitted on-chain.
+ * @param {string} signature - The signature returned by `signAttestation`.
+ * @param {string} publicKey - Hex encoded secp256k1 public key of the orchestrator.
+ * @returns {boolean} Whether the signature is valid.
+ */
+export const verifyAttestation = (payload: AttestationPayload, signature: string, publicKey: string): boolean => {
+  try {
+    const compact = strip0x(signature).slice(0, 128);
+    return secp256k1.verify(compact, digest(payload), strip0x(publicKey));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Recovers the public key that produced an attestation.
+ *
+ * @param {AttestationPayload} payload - The fulfillment, as submitted on-chain.
+ * @param {string} signature - The signature returned by `signAttestation`.
+ * @returns {string} The compressed public key of the signer, hex encoded with a `0x` prefix.
+ */
+export const recoverAttestationSigner = (payload: AttestationPayload, signature: string): string => {
+  const bytes = strip0x(signature);
+  const recovered = secp256k1.Signature.fromCompact(bytes.slice(0, 128))
+    .addRecoveryBit(Number.parseInt(bytes.slice(128, 130), 16))
+    .recoverPublicKey(digest(payload));
+  return `0x${recovered.toHex(true)}`;
+};
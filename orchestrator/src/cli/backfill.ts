@@ -0,0 +1,73 @@
+import "dotenv/config";
+import env from "@/env";
+import { createIndexer } from "@/indexer/factory";
+import RoochIndexer from "@/indexer/rooch";
+import { dynamicInstanceManager } from "@/integrations/manager";
+import { log } from "@/logger";
+import { SupportedChain } from "@/types";
+import prismaClient from "../../prisma";
+
+const USAGE = `Usage:
+  backfill <chain> <from> <to> [--dry-run]
+  backfill <chain> --unfulfilled [--dry-run]
+
+<chain> is the chain identifier of the indexer, e.g. ROOCH-testnet or APTOS-mainnet.
+<from> and <to> bound the range to replay, inclusive: event_seq values on Rooch, transaction versions on Aptos.
+Sui events can not be replayed.
+--unfulfilled fulfils every pending Request object of this orchestrator instead (Rooch only).
+--dry-run only prints the requests that would be fulfilled.`;
+
+const findDeployment = (chain: string) => {
+  const deployment = env.deployments.find(({ chain: blockchain, network }) => `${blockchain}-${network}` === chain);
+  if (!deployment) {
+    throw new Error(`No indexer configured for ${chain}`);
+  }
+  return deployment;
+};
+
+/**
+ * Reprocesses past RequestAdded events, e.g. after rotating the orchestrator key or recovering from an outage.
+ * The checkpoints of the indexers are left untouched.
+ */
+const main = async (args: string[]) => {
+  const dryRun = args.includes("--dry-run");
+  const unfulfilled = args.includes("--unfulfilled");
+  const [chain, from, to] = args.filter((arg) => !arg.startsWith("--"));
+  if (!chain || (!unfulfilled && (from === undefined || to === undefined))) {
+    throw new Error(USAGE);
+  }
+  // Sui paginates events by event id rather than by position, so there is no range to replay
+  if (chain.toUpperCase().startsWith(`${SupportedChain.SUI}-`)) {
+    throw new Error("Backfill is not supported on Sui");
+  }
+
+  const indexer = createIndexer(findDeployment(chain));
+  await dynamicInstanceManager.reload();
+
+  if (unfulfilled) {
+    if (!(indexer instanceof RoochIndexer)) {
+      throw new Error("--unfulfilled is only supported on Rooch");
+    }
+    const requests = await indexer.sendUnfulfilledRequests(dryRun);
+    log.info(`${dryRun ? "Found" : "Processed"} ${requests.length} unfulfilled requests on ${chain}`);
+    return;
+  }
+
+  const [start, end] = [BigInt(from), BigInt(to)];
+  if (start > end) {
+    throw new Error(`<from> must not be greater than <to>`);
+  }
+  const requests = await indexer.replay(start, end, dryRun);
+  log.info(`${dryRun ? "Found" : "Processed"} ${requests.length} pending requests on ${chain} from ${from} to ${to}`);
+};
+
+main(process.argv.slice(2))
+  .catch((err) => {
+    console.error(err.message);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prismaClient.$disconnect();
+    // The Rooch client keeps its websocket open
+    process.exit();
+  });
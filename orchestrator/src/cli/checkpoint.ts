@@ -0,0 +1,67 @@
+import "dotenv/config";
+import env from "@/env";
+import { validateCursor } from "@/indexer/cursor";
+import { log } from "@/logger";
+import prismaClient from "../../prisma";
+
+const USAGE = `Usage:
+  checkpoint list
+  checkpoint set <chain> <cursor> [oracleAddress]
+
+<chain> is the chain identifier of the indexer, e.g. ROOCH-testnet, APTOS-mainnet or SUI-testnet.
+<cursor> is the position of the last event considered processed, in the format of the chain:
+  ROOCH: the event_seq of the RequestAdded event
+  APTOS: the transaction version, or '<version>:<event index>' within a transaction
+  SUI:   the JSON encoded event id, e.g. '{"txDigest":"...","eventSeq":"0"}'
+Setting the cursor to 0 restarts the indexer from the first event.
+[oracleAddress] defaults to the oracle address configured for the chain, e.g. in CONFIG_FILE.`;
+
+const defaultOracleAddress = (chain: string): string =>
+  env.deployments.find(({ chain: blockchain, network }) => `${blockchain}-${network}` === chain)?.oracleAddress ?? "";
+
+/**
+ * Lists, rewinds or fast-forwards the checkpoints of the indexers.
+ * Stop the orchestrator before moving a checkpoint, so a running indexer does not overwrite it.
+ */
+const main = async ([command, chain, cursor, oracleAddress]: string[]) => {
+  switch (command) {
+    case "list": {
+      const checkpoints = await prismaClient.checkpoint.findMany({ orderBy: { chain: "asc" } });
+      for (const checkpoint of checkpoints) {
+        console.log(
+          `${checkpoint.chain}\t${checkpoint.oracleAddress}\t${checkpoint.cursor}\t${checkpoint.updateAt.toISOString()}`,
+        );
+      }
+      return;
+    }
+    case "set": {
+      if (!chain || cursor === undefined) {
+        throw new Error(USAGE);
+      }
+      validateCursor(chain, cursor);
+      const address = oracleAddress ?? defaultOracleAddress(chain);
+      if (!address) {
+        throw new Error(`No oracle address configured for ${chain}`);
+      }
+
+      const where = { chain_oracleAddress: { chain, oracleAddress: address } };
+      const previous = await prismaClient.checkpoint.findUnique({ where });
+      await prismaClient.checkpoint.upsert({
+        where,
+        create: { chain, oracleAddress: address, cursor },
+        update: { cursor },
+      });
+      log.info(`Moved the checkpoint of ${chain} (${address}) from ${previous?.cursor ?? "none"} to ${cursor}`);
+      return;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+main(process.argv.slice(2))
+  .catch((err) => {
+    console.error(err.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prismaClient.$disconnect());
@@ -0,0 +1,65 @@
+import "dotenv/config";
+import env from "@/env";
+import { listKeepers, rotateKeeperKeys } from "@/indexer/keepers";
+import { log } from "@/logger";
+import { type RoochNetwork, SupportedChain } from "@/types";
+import { RoochClient, getRoochNodeUrl } from "@roochnetwork/rooch-sdk";
+import prismaClient from "../../prisma";
+
+const USAGE = `Usage:
+  keeper report
+  keeper rotate
+  keeper export [network] [module]
+
+report prints the address and gas balance of every keeper.
+rotate re-encrypts every keeper with KEEPER_MASTER_KEY, decrypting with KEEPER_PREVIOUS_MASTER_KEYS when needed.
+export prints the private keys of the keepers, optionally of a single network (e.g. testnet) or notified module.`;
+
+const GAS_COIN_TYPE = "0x3::gas_coin::RGas";
+
+const getBalance = async (network: string, address: string) => {
+  const deployment = env.deployments.find(
+    (deployment) => deployment.chain === SupportedChain.ROOCH && deployment.network === network,
+  );
+  const client = new RoochClient({ url: deployment?.rpcUrl || getRoochNodeUrl(network as RoochNetwork) });
+  const balance = await client.getBalance({ owner: address, coinType: GAS_COIN_TYPE });
+  return `${balance.fixedBalance} ${balance.symbol}`;
+};
+
+/**
+ * Reports, rotates or exports the keeper keys used to notify the modules of fulfilled requests.
+ */
+const main = async ([command, network, module]: string[]) => {
+  switch (command) {
+    case "report": {
+      for (const keeper of await listKeepers()) {
+        const balance = await getBalance(keeper.chain, keeper.address).catch((err) => `unavailable (${err.message})`);
+        console.log(`${keeper.chain}\t${keeper.module}\t${keeper.address}\t${balance}`);
+      }
+      return;
+    }
+    case "rotate": {
+      const count = await rotateKeeperKeys();
+      log.info(`Re-encrypted ${count} keepers with the master key`);
+      return;
+    }
+    case "export": {
+      const keepers = (await listKeepers()).filter(
+        (keeper) => (!network || keeper.chain === network) && (!module || keeper.module === module),
+      );
+      for (const keeper of keepers) {
+        console.log(`${keeper.chain}\t${keeper.module}\t${keeper.address}\t${keeper.privateKey}`);
+      }
+      return;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+main(process.argv.slice(2))
+  .catch((err) => {
+    console.error(err.message);
+    process.exitCode = 1;
+  })
+  .finally(() => prismaClient.$disconnect());
@@ -1,10 +1,38 @@
+import { existsSync, readFileSync } from "node:fs";
 import { Network } from "@aptos-labs/ts-sdk";
+import { parse as parseDotenv } from "dotenv";
 import Joi from "joi";
-import { AptosNetworkList, ChainList, type RoochNetwork, RoochNetworkList, SupportedChain } from "./types";
-import { addressValidator, isRequiredWhenChainsInclude, privateKeyValidator } from "./validator";
+import { parse as parseYaml } from "yaml";
+import {
+  AptosEventSourceList,
+  type AptosNetworkConfig,
+  AptosNetworkList,
+  type ChainDeployment,
+  ChainList,
+  DefaultChainList,
+  type RoochNetwork,
+  RoochNetworkList,
+  type SuiNetwork,
+  SuiNetworkList,
+  SupportedChain,
+} from "./types";
+import {
+  addressValidator,
+  ecdsaPrivateKeyValidator,
+  isRequiredWhenChainsInclude,
+  masterKeyValidator,
+  privateKeyValidator,
+} from "./validator";
+
+const configFile = process.env.CONFIG_FILE ?? "";
+
+// Settings of a single Aptos network, e.g. APTOS_MAINNET_PRIVATE_KEY, fall back to the shared APTOS_PRIVATE_KEY
+const aptosNetworkVar = (chainId: string, name: string) =>
+  process.env[`APTOS_${chainId.trim().toUpperCase()}_${name}`] ?? process.env[`APTOS_${name}`];
 
 const baseConfig = {
-  chains: (process.env.CHAINS ? process.env.CHAINS.split(",") : ChainList) as SupportedChain[],
+  configFile,
+  chains: (process.env.CHAINS ? process.env.CHAINS.split(",") : DefaultChainList) as SupportedChain[],
   // Rooch
   roochChainId: (process.env.ROOCH_CHAIN_ID
     ? process.env.ROOCH_CHAIN_ID.split(",")
@@ -12,42 +40,97 @@ const baseConfig = {
   roochPrivateKey: process.env.ROOCH_PRIVATE_KEY ?? "",
   roochOracleAddress: process.env.ROOCH_ORACLE_ADDRESS ?? "",
   roochIndexerCron: process.env.ROOCH_INDEXER_CRON,
+  roochSubscribe: process.env.ROOCH_SUBSCRIBE,
   // Aptos
-  aptosChainId: process.env.APTOS_CHAIN_ID,
-  aptosOracleAddress: process.env.APTOS_ORACLE_ADDRESS,
-  aptosIndexerCron: process.env.APTOS_INDEXER_CRON,
-  aptosPrivateKey: process.env.APTOS_PRIVATE_KEY,
+  aptosNetworks: (process.env.APTOS_CHAIN_ID ? process.env.APTOS_CHAIN_ID.split(",") : [AptosNetworkList[0]]).map(
+    (chainId) => ({
+      chainId,
+      oracleAddress: aptosNetworkVar(chainId, "ORACLE_ADDRESS"),
+      indexerCron: aptosNetworkVar(chainId, "INDEXER_CRON"),
+      privateKey: aptosNetworkVar(chainId, "PRIVATE_KEY"),
+      rpcUrl: aptosNetworkVar(chainId, "RPC_URL"),
+      indexerUrl: aptosNetworkVar(chainId, "INDEXER_URL"),
+      eventSource: aptosNetworkVar(chainId, "EVENT_SOURCE"),
+    }),
+  ),
   aptosNoditKey: process.env.APTOS_NODIT_KEY,
+  // Sui
+  suiChainId: process.env.SUI_CHAIN_ID,
+  suiOracleAddress: process.env.SUI_ORACLE_ADDRESS,
+  suiIndexerCron: process.env.SUI_INDEXER_CRON,
+  suiPrivateKey: process.env.SUI_PRIVATE_KEY,
   // Common
   sentryDSN: process.env.SENTRY_DSN ?? "",
+  sentryTracesSampleRate: process.env.SENTRY_TRACES_SAMPLE_RATE,
+  sentryProfilesSampleRate: process.env.SENTRY_PROFILES_SAMPLE_RATE,
   ecdsaPrivateKey: process.env.ECDSA_PRIVATE_KEY ?? "",
+  keeperMasterKey: process.env.KEEPER_MASTER_KEY ?? "",
+  keeperPreviousMasterKeys: process.env.KEEPER_PREVIOUS_MASTER_KEYS
+    ? process.env.KEEPER_PREVIOUS_MASTER_KEYS.split(",")
+    : [],
   batchSize: process.env.BATCH_SIZE ?? 1000,
+  indexerConcurrency: process.env.INDEXER_CONCURRENCY,
+  retryCron: process.env.RETRY_CRON,
+  retryMaxAttempts: process.env.RETRY_MAX_ATTEMPTS,
+  retryBackoff: process.env.RETRY_BACKOFF,
+  registrySyncCron: process.env.REGISTRY_SYNC_CRON ?? "",
+  integrationsReloadCron: process.env.INTEGRATIONS_RELOAD_CRON ?? "",
+  adminHost: process.env.ADMIN_HOST,
+  adminPort: process.env.ADMIN_PORT,
   // Integrations
   xBearerToken: process.env.X_BEARER_TOKEN ?? "",
+  xCacheTtl: process.env.X_CACHE_TTL,
+  maxResponseSize: process.env.MAX_RESPONSE_SIZE,
   openAIToken: process.env.OPEN_AI_TOKEN ?? "",
   azureToken: process.env.AZURE_TOKEN ?? "",
 };
 
 interface IEnvVars {
+  configFile: string;
   chains: SupportedChain[];
   roochChainId: RoochNetwork[];
   roochOracleAddress: string;
   roochPrivateKey: string;
   roochIndexerCron: string;
-  aptosChainId: Network;
-  aptosOracleAddress: string;
-  aptosIndexerCron: string;
+  roochSubscribe: boolean;
+  aptosNetworks: AptosNetworkConfig[];
   aptosNoditKey: string;
-  aptosPrivateKey: string;
+  suiChainId: SuiNetwork;
+  suiOracleAddress: string;
+  suiIndexerCron: string;
+  suiPrivateKey: string;
   sentryDSN?: string;
+  sentryTracesSampleRate: number;
+  sentryProfilesSampleRate: number;
   ecdsaPrivateKey?: string;
+  keeperMasterKey: string;
+  keeperPreviousMasterKeys: string[];
   batchSize: number;
+  indexerConcurrency: number;
+  retryCron: string;
+  retryMaxAttempts: number;
+  retryBackoff: number;
+  registrySyncCron: string;
+  integrationsReloadCron: string;
+  adminHost: string;
+  adminPort: number;
   xBearerToken: string;
+  xCacheTtl: number;
+  maxResponseSize: number;
   openAIToken: string;
   azureToken: string;
 }
 
+// The flat chain variables are only read, and required, without a config file
+const flatChainVar = (schema: Joi.StringSchema<string>, chain: string, chains?: string) =>
+  Joi.when("/configFile", {
+    is: Joi.string().min(1),
+    then: Joi.any().strip(),
+    otherwise: isRequiredWhenChainsInclude(schema, chain, chains),
+  });
+
 const envVarsSchema = Joi.object({
+  configFile: Joi.string().allow(""),
   // Chains
   chains: Joi.array()
     .items(
@@ -55,7 +138,7 @@ const envVarsSchema = Joi.object({
         .valid(...ChainList)
         .insensitive(),
     )
-    .default(ChainList),
+    .default([...DefaultChainList]),
   roochChainId: Joi.array()
     .items(
       Joi.string()
@@ -64,43 +147,107 @@ const envVarsSchema = Joi.object({
         .default(RoochNetworkList[0]),
     )
     .default([RoochNetworkList[0]]),
-  roochOracleAddress: isRequiredWhenChainsInclude(
+  roochOracleAddress: flatChainVar(
     Joi.string().custom((value, helper) => addressValidator(value, helper)),
     SupportedChain.ROOCH,
   ),
-  roochPrivateKey: isRequiredWhenChainsInclude(
+  roochPrivateKey: flatChainVar(
     Joi.string().custom((value, helper) => {
       return privateKeyValidator(value, helper);
     }),
     SupportedChain.ROOCH,
   ),
-  aptosChainId: Joi.string()
-    .valid(...Object.values(Network))
+  aptosNetworks: Joi.array()
+    .items(
+      Joi.object({
+        chainId: Joi.string()
+          .trim()
+          .lowercase()
+          .valid(...Object.values(Network))
+          .required(),
+        oracleAddress: flatChainVar(
+          Joi.string().custom((value, helper) => addressValidator(value, helper)),
+          SupportedChain.APTOS,
+          "/chains",
+        ),
+        privateKey: flatChainVar(
+          Joi.string().custom((value, helper) => {
+            return privateKeyValidator(value, helper);
+          }),
+          SupportedChain.APTOS,
+          "/chains",
+        ),
+        indexerCron: Joi.string().default("*/5 * * * * *"),
+        rpcUrl: Joi.string()
+          .uri()
+          .allow("")
+          .default("")
+          .when("chainId", { is: Network.CUSTOM, then: Joi.required().invalid("") }),
+        indexerUrl: Joi.string().uri().allow("").default(""),
+        // Deployments configured before the event sources were introduced keep using Nodit
+        eventSource: Joi.string()
+          .valid(...AptosEventSourceList)
+          .when("/aptosNoditKey", {
+            is: Joi.string().min(1).required(),
+            then: Joi.string().default("nodit"),
+            otherwise: Joi.string().default("indexer"),
+          }),
+      }),
+    )
+    .unique("chainId"),
+  aptosNoditKey: Joi.string().allow("", null).default(""),
+  suiChainId: Joi.string()
+    .valid(...SuiNetworkList)
     .insensitive()
-    .default(AptosNetworkList[0]),
-  aptosOracleAddress: isRequiredWhenChainsInclude(
+    .default(SuiNetworkList[0]),
+  suiOracleAddress: flatChainVar(
     Joi.string().custom((value, helper) => addressValidator(value, helper)),
-    SupportedChain.APTOS,
+    SupportedChain.SUI,
   ),
-  aptosPrivateKey: isRequiredWhenChainsInclude(
+  suiPrivateKey: flatChainVar(
     Joi.string().custom((value, helper) => {
       return privateKeyValidator(value, helper);
     }),
-    SupportedChain.APTOS,
+    SupportedChain.SUI,
   ),
-  aptosNoditKey: isRequiredWhenChainsInclude(Joi.string(), SupportedChain.APTOS),
   roochIndexerCron: Joi.string().default("*/5 * * * * *"),
-  aptosIndexerCron: Joi.string().default("*/5 * * * * *"),
+  roochSubscribe: Joi.boolean().default(false),
+  suiIndexerCron: Joi.string().default("*/5 * * * * *"),
 
   // Integrations
   xBearerToken: Joi.string().allow("").required(),
+  xCacheTtl: Joi.number().integer().min(0).default(0),
+  maxResponseSize: Joi.number().integer().min(0).default(0),
   openAIToken: Joi.string().allow("").required(),
   azureToken: Joi.string().allow("").required(),
 
   // Common
   sentryDSN: Joi.string().allow("", null),
-  ecdsaPrivateKey: Joi.string().allow("", null),
+  sentryTracesSampleRate: Joi.number().min(0).max(1).default(0.1),
+  sentryProfilesSampleRate: Joi.number().min(0).max(1).default(0),
+  ecdsaPrivateKey: Joi.string()
+    .custom((value, helper) => ecdsaPrivateKeyValidator(value, helper))
+    .allow("", null),
+  keeperMasterKey: Joi.string()
+    .custom((value, helper) => masterKeyValidator(value, helper))
+    .allow(""),
+  keeperPreviousMasterKeys: Joi.array().items(
+    Joi.string()
+      .trim()
+      .custom((value, helper) => masterKeyValidator(value, helper)),
+  ),
   batchSize: Joi.number().default(1000),
+  indexerConcurrency: Joi.number().integer().min(1).default(4),
+  retryCron: Joi.string().default("*/30 * * * * *"),
+  retryMaxAttempts: Joi.number().integer().min(0).default(5),
+  registrySyncCron: Joi.string().allow(""),
+  integrationsReloadCron: Joi.string().allow(""),
+  adminHost: Joi.string().default("127.0.0.1"),
+  adminPort: Joi.number().port().default(8080),
+  retryBackoff: Joi.number()
+    .integer()
+    .min(0)
+    .default(30 * 1000),
 });
 
 const { value, error } = envVarsSchema.validate({
@@ -112,28 +259,182 @@ if (error) {
 }
 const envVars = value as IEnvVars;
 
+if (!envVars.aptosNoditKey && envVars.aptosNetworks.some((network) => network.eventSource === "nodit")) {
+  throw new Error('"aptosNoditKey" is required by the nodit event source');
+}
+
+/**
+ * Resolves a signer key reference of the config file, so keys are not written in the file itself.
+ * `env:NAME` reads the environment variable NAME, and `file:PATH` the content of the file at PATH, e.g. a secret.
+ */
+const resolveKeyReference = (reference: string, helpers: Joi.CustomHelpers<any>) => {
+  const [, scheme, target] = reference.match(/^(env|file):(.+)$/) ?? [];
+  const key = scheme === "env" ? process.env[target] : scheme === "file" ? readFileSync(target, "utf8").trim() : "";
+  return key ? key : helpers.error("any.invalid");
+};
+
+const deploymentSchema = Joi.object({
+  chain: Joi.string()
+    .uppercase()
+    .valid(...ChainList)
+    .required(),
+  network: Joi.string()
+    .required()
+    .when("chain", {
+      switch: [
+        { is: SupportedChain.ROOCH, then: Joi.valid(...RoochNetworkList) },
+        { is: SupportedChain.APTOS, then: Joi.valid(...Object.values(Network)) },
+        { is: SupportedChain.SUI, then: Joi.valid(...SuiNetworkList) },
+      ],
+    }),
+  rpcUrl: Joi.string()
+    .uri()
+    .allow("")
+    .default("")
+    .when("network", { is: Network.CUSTOM, then: Joi.required().invalid("") }),
+  oracleAddress: Joi.string()
+    .custom((value, helper) => addressValidator(value, helper))
+    .required(),
+  privateKey: Joi.string()
+    .custom((value, helper) => resolveKeyReference(value, helper))
+    .messages({ "any.invalid": '{{#label}} must reference a non-empty key as "env:NAME" or "file:PATH"' })
+    .required(),
+  indexerCron: Joi.string().default("*/5 * * * * *"),
+  // Aptos only
+  indexerUrl: Joi.string()
+    .uri()
+    .allow("")
+    .when("chain", { is: SupportedChain.APTOS, then: Joi.string().default(""), otherwise: Joi.forbidden() }),
+  eventSource: Joi.string()
+    .valid(...AptosEventSourceList)
+    .when("chain", { is: SupportedChain.APTOS, then: Joi.string().default("indexer"), otherwise: Joi.forbidden() }),
+});
+
+const configFileSchema = Joi.object({
+  deployments: Joi.array()
+    .items(deploymentSchema)
+    // Indexers, checkpoints and metrics are keyed by chain and network
+    .unique((a, b) => a.chain === b.chain && a.network === b.network)
+    .messages({ "array.unique": "{{#label}} contains more than one deployment of {{#value.chain}} {{#value.network}}" })
+    .required(),
+});
+
+/**
+ * Reads the chain deployments from the JSON or YAML config file.
+ *
+ * @param {string} path - The path of the config file.
+ * @returns {ChainDeployment[]} The validated deployments, with their signer keys resolved.
+ */
+const loadConfigFile = (path: string): ChainDeployment[] => {
+  const { value, error } = configFileSchema.validate(parseYaml(readFileSync(path, "utf8")));
+  if (error) {
+    throw new Error(`${path}: ${error.message}`);
+  }
+  return value.deployments;
+};
+
+// Without a config file, the deployments are derived from the flat variables
+const flatDeployments = (): ChainDeployment[] => [
+  ...envVars.roochChainId.map((network) => ({
+    chain: SupportedChain.ROOCH,
+    network,
+    rpcUrl: "",
+    oracleAddress: envVars.roochOracleAddress,
+    privateKey: envVars.roochPrivateKey,
+    indexerCron: envVars.roochIndexerCron,
+  })),
+  ...envVars.aptosNetworks.map(({ chainId, ...network }) => ({
+    chain: SupportedChain.APTOS,
+    network: chainId,
+    ...network,
+  })),
+  {
+    chain: SupportedChain.SUI,
+    network: envVars.suiChainId,
+    rpcUrl: "",
+    oracleAddress: envVars.suiOracleAddress,
+    privateKey: envVars.suiPrivateKey,
+    indexerCron: envVars.suiIndexerCron,
+  },
+];
+
+const deployments = (envVars.configFile ? loadConfigFile(envVars.configFile) : flatDeployments()).filter(
+  (deployment) =>
+    envVars.chains.includes(deployment.chain as SupportedChain) && deployment.privateKey && deployment.oracleAddress,
+);
+
 export default {
   chains: envVars.chains,
   batchSize: envVars.batchSize,
+  // Number of events each indexer processes at once
+  indexerConcurrency: envVars.indexerConcurrency,
   ecdsaPrivateKey: envVars.ecdsaPrivateKey,
-  sentryDSN: envVars.sentryDSN,
+  sentry: {
+    // Sentry is disabled when empty
+    dsn: envVars.sentryDSN,
+    // Share of the indexer runs traced, and of the traces profiled
+    tracesSampleRate: envVars.sentryTracesSampleRate,
+    profilesSampleRate: envVars.sentryProfilesSampleRate,
+  },
+  keeper: {
+    // Encrypts the keeper keys at rest, they are stored in plain text when empty
+    masterKey: envVars.keeperMasterKey,
+    // Decrypt the keepers not re-encrypted yet after a rotation
+    previousMasterKeys: envVars.keeperPreviousMasterKeys,
+  },
+  retry: {
+    cron: envVars.retryCron,
+    // Failed fulfillments are moved to RequestStatus.DEAD_LETTER once this many retries are exhausted
+    maxAttempts: envVars.retryMaxAttempts,
+    // Base delay in ms, doubled on every retry
+    backoff: envVars.retryBackoff,
+  },
+  registry: {
+    // Reconciliation of the served URLs with the on-chain registry is disabled when empty
+    syncCron: envVars.registrySyncCron,
+  },
+  admin: {
+    host: envVars.adminHost,
+    // The admin API is disabled when set to 0
+    port: envVars.adminPort,
+  },
   integrations: {
+    // Periodic reload of the integration handlers is disabled when empty
+    reloadCron: envVars.integrationsReloadCron,
     xBearerToken: envVars.xBearerToken,
+    // Lifetime in ms of cached X responses, caching is disabled when 0
+    xCacheTtl: envVars.xCacheTtl,
     openAIToken: envVars.openAIToken,
     azureToken: envVars.azureToken,
+    // Maximum size in bytes of the results submitted on-chain, unlimited when 0. SupportedUrl rows can override it.
+    maxResponseSize: envVars.maxResponseSize,
   },
+  // One indexer per deployment, from CONFIG_FILE or else from the flat chain variables
+  deployments,
   rooch: {
-    chainId: envVars.roochChainId,
-    oracleAddress: envVars.roochOracleAddress,
-    // Ideally promote indexerCron, it shouldn't necessary be tided to a chain
-    indexerCron: envVars.roochIndexerCron,
-    privateKey: envVars.roochPrivateKey,
+    // Stream RequestAdded events over the WebSocket transport, polling on indexerCron keeps catching up on gaps
+    subscribe: envVars.roochSubscribe,
   },
   aptos: {
-    chainId: envVars.aptosChainId,
-    oracleAddress: envVars.aptosOracleAddress,
-    indexerCron: envVars.aptosIndexerCron,
-    privateKey: envVars.aptosPrivateKey,
+    // Required by the nodit event source
     noditKey: envVars.aptosNoditKey,
   },
 };
+
+/**
+ * Re-reads the tokens of the built-in integrations, giving precedence to the `.env` file so they can be
+ * rotated without restarting the process. Only the tokens are read from the file, the environment of the
+ * process is left untouched.
+ *
+ * @param {string} [path] - The path of the `.env` file.
+ * @returns {{xBearerToken: string, openAIToken: string, azureToken: string}} The current tokens.
+ */
+export const readIntegrationTokens = (path = ".env") => {
+  const file = existsSync(path) ? parseDotenv(readFileSync(path)) : {};
+  const token = (name: string) => file[name] ?? process.env[name] ?? "";
+  return {
+    xBearerToken: token("X_BEARER_TOKEN"),
+    openAIToken: token("OPEN_AI_TOKEN"),
+    azureToken: token("AZURE_TOKEN"),
+  };
+};
@@ -1,46 +1,118 @@
+import "./instrument";
 import { CronJob } from "cron";
 import "dotenv/config";
+import { getAttestationPublicKey } from "./attestation";
 import env from "./env";
-import AptosIndexer from "./indexer/aptos";
+import type { Indexer } from "./indexer/base";
+import { createIndexer } from "./indexer/factory";
 import RoochIndexer from "./indexer/rooch";
+import { dynamicInstanceManager } from "./integrations/manager";
+import { RegistryReconciler } from "./integrations/registry";
 import { log } from "./logger";
+import { captureError } from "./sentry";
+import { startAdminServer } from "./server";
+import { ChainList } from "./types";
+
+// Runs the task on the cron schedule, skipping ticks while a previous run is still in progress.
+const schedule = (cronTime: string, task: () => Promise<void>) => {
+  let running = false;
+  return new CronJob(
+    cronTime,
+    async () => {
+      if (!running) {
+        running = true;
+        try {
+          await task();
+        } finally {
+          running = false;
+        }
+      }
+    },
+    null,
+    true,
+  );
+};
 
 (async () => {
   // Check env variables to determine which chains to subscribe to for events.
-  // Start cron job to check for new events from Rooch Oracles
-
-  if (env.rooch.privateKey && env.rooch.chainId.length > 0 && env.rooch.oracleAddress && env.chains.includes("ROOCH")) {
-    env.rooch.chainId.map((chain) => {
-      const rooch = new RoochIndexer(env.rooch.privateKey, chain, env.rooch.oracleAddress);
-      let running = false;
-      const job = new CronJob(
-        env.rooch.indexerCron,
-        async () => {
-          if (!running) {
-            running = true;
-            await rooch.run();
-            running = false;
-          }
-        },
-        null,
-        true,
-      );
-    });
+  // Start a cron job checking for new events on every chain deployment
+  const indexers: Indexer[] = [];
+
+  for (const deployment of env.deployments) {
+    const indexer = createIndexer(deployment);
+    indexers.push(indexer);
+    if (indexer instanceof RoochIndexer) {
+      schedule(deployment.indexerCron, async () => {
+        // (Re)subscribe on every tick, polling covers the events emitted while disconnected
+        if (env.rooch.subscribe) {
+          await indexer.subscribe(() => indexer.run());
+        }
+        await indexer.run();
+      });
+    } else {
+      schedule(deployment.indexerCron, () => indexer.run());
+    }
+  }
+  for (const chain of ChainList) {
+    if (!env.deployments.some((deployment) => deployment.chain === chain)) {
+      log.info(`Skipping ${chain} Indexer initialization...`);
+    }
+  }
+
+  if (!env.keeper.masterKey && env.deployments.some((deployment) => deployment.chain === "ROOCH")) {
+    log.warn("KEEPER_MASTER_KEY is not set, keeper keys are stored in plain text");
+  }
+
+  if (env.ecdsaPrivateKey) {
+    log.info(`Attesting fulfillments with public key: ${getAttestationPublicKey(env.ecdsaPrivateKey)}`);
+  } else {
+    log.info(`Skipping attestation of fulfillments...`);
+  }
+
+  // Start cron job to retry failed fulfillments for every initialized indexer
+  for (const indexer of indexers) {
+    schedule(env.retry.cron, () => indexer.retryFailedEvents());
+  }
+
+  // Start cron job to reconcile the served URLs with the ones advertised in the Rooch registry
+  const registrySources = indexers.filter((indexer): indexer is RoochIndexer => indexer instanceof RoochIndexer);
+  if (env.registry.syncCron && registrySources.length > 0) {
+    const reconciler = new RegistryReconciler(registrySources);
+    const reconcile = async () => {
+      try {
+        await reconciler.reconcile();
+      } catch (err: any) {
+        log.error("Unable to reconcile the supported URLs with the registry", { err: err.message });
+        captureError(err, { task: "registry" });
+      }
+    };
+    // The restriction survives reloads, reconcile once the handlers are rebuilt to refresh it
+    dynamicInstanceManager.onReload(reconcile);
+    schedule(env.registry.syncCron, reconcile);
   } else {
-    log.info(`Skipping Rooch Indexer initialization...`);
-  }
-
-  if (env.aptos.privateKey && env.aptos.chainId && env.aptos.oracleAddress && env.chains.includes("APTOS")) {
-    const aptosIndexer = new AptosIndexer(env.aptos.privateKey, env.aptos.chainId, env.aptos.oracleAddress);
-    new CronJob(
-      env.rooch.indexerCron,
-      () => {
-        aptosIndexer.run();
-      },
-      null,
-      true,
-    );
+    log.info(`Skipping registry reconciliation...`);
+  }
+
+  // Reload the integration handlers on SIGHUP, and periodically when configured
+  const reloadIntegrations = async () => {
+    try {
+      await dynamicInstanceManager.reload();
+    } catch (err: any) {
+      log.error("Unable to reload the integrations", { err: err.message });
+      captureError(err, { task: "reload" });
+    }
+  };
+  process.on("SIGHUP", () => {
+    log.info("Received SIGHUP, reloading the integrations...");
+    reloadIntegrations();
+  });
+  if (env.integrations.reloadCron) {
+    schedule(env.integrations.reloadCron, reloadIntegrations);
+  }
+
+  if (env.admin.port > 0) {
+    startAdminServer(indexers);
   } else {
-    log.info(`Skipping Aptos Indexer initialization...`);
+    log.info(`Skipping Admin API initialization...`);
   }
 })();
@@ -1,21 +1,23 @@
-import env from "@/env";
 import { log } from "@/logger";
-import type { AptosBlockMetadataTransaction, AptosTransactionData, ProcessedRequestAdded } from "@/types";
+import type { AptosEventRecord, AptosRequestEvent, ChainDeployment, ProcessedRequestAdded } from "@/types";
 import { decodeNotifyValue } from "@/util";
-import { Account, Aptos, AptosConfig, Ed25519PrivateKey, Network } from "@aptos-labs/ts-sdk";
-import axios from "axios";
-import { GraphQLClient, gql } from "graphql-request";
-import prismaClient from "../../prisma";
+import { Account, Aptos, AptosConfig, Ed25519PrivateKey, type Network } from "@aptos-labs/ts-sdk";
+import type { Events } from "@prisma/client";
+import { type AptosEventSource, createAptosEventSource } from "./aptosEventSource";
 import { Indexer } from "./base";
 
 export default class AptosIndexer extends Indexer {
-  private lastTxVersion: number;
   private account: Account;
+  private aptos: Aptos;
+  private eventSource: AptosEventSource;
+  // The checkpoint only moves past the transactions of the oracle account with Nodit, so its lag is not reported
+  private reportsLag: boolean;
 
   constructor(
     private privateKey: string,
     private chainId: Network,
     protected oracleAddress: string,
+    { rpcUrl, indexerUrl, eventSource = "indexer" }: Pick<ChainDeployment, "rpcUrl" | "indexerUrl" | "eventSource">,
   ) {
     if (!privateKey || !/^0x[0-9a-fA-F]+$/.test(privateKey)) {
       throw new Error("Invalid private key format. It must be a non-empty hex string.");
@@ -24,7 +26,15 @@ export default class AptosIndexer extends Indexer {
     const account = Account.fromPrivateKey({ privateKey: key });
     super(oracleAddress, account.accountAddress.toString());
     this.account = account;
-    this.lastTxVersion = 0;
+    this.aptos = new Aptos(
+      new AptosConfig({
+        network: chainId,
+        fullnode: rpcUrl || undefined,
+        indexer: indexerUrl || undefined,
+      }),
+    );
+    this.eventSource = createAptosEventSource(eventSource, this.aptos, oracleAddress);
+    this.reportsLag = eventSource !== "nodit";
     log.info(`Aptos Indexer initialized`);
     log.info(`Chain ID: ${this.getChainId()} \n\t\tOrchestrator Oracle Node Address: ${this.orchestrator}`);
   }
@@ -33,127 +43,51 @@ export default class AptosIndexer extends Indexer {
     return `APTOS-${this.chainId}`;
   }
 
-  getRpcUrl(): string {
-    return `https://aptos-${this.chainId === Network.TESTNET ? "testnet" : "mainnet"}.nodit.io`;
-  }
-
   /**
-   * Fetches a list of transactions based on the provided transaction IDs.
+   * A transaction can emit several RequestAdded events, so an event is identified by its transaction version
+   * and its index within the transaction. The cursor is `<version>:<index>` after an event, or `<version>`
+   * once every event of the transaction is processed.
    *
-   * This asynchronous function takes an array of transaction IDs, makes API calls
-   * to retrieve the corresponding Aptos block metadata transactions, and returns
-   * the collected data.
-   *
-   * @param {number[]} transactionIDs - An array of transaction IDs to fetch.
-   * @returns {Promise<AptosBlockMetadataTransaction[]>} A promise that resolves to an array of Aptos block metadata transactions.
+   * @param {null | string} cursor - The cursor.
+   * @returns {{ version: number; eventIndex: number | null }} The last processed position.
    */
-  async fetchTransactionList(transactionIDs: number[]): Promise<AptosBlockMetadataTransaction[]> {
-    // Could be optimized by using Promise.settled preventing a single failed request to fail the entire operation
-    return await Promise.all(
-      transactionIDs.map(async (transaction) => {
-        const response: AptosBlockMetadataTransaction = (
-          await axios.get(`${this.getRpcUrl()}/v1/transactions/by_version/${transaction}`, {
-            headers: {
-              "X-API-KEY": env.aptos.noditKey,
-            },
-          })
-        ).data;
-        return response;
-      }),
-    );
+  private parseCursor(cursor: null | string): { version: number; eventIndex: number | null } {
+    const [version, eventIndex] = (cursor ?? "0").split(":");
+    return { version: Number(version), eventIndex: eventIndex === undefined ? null : Number(eventIndex) };
   }
 
   /**
    * Fetches a list of RequestAdded events based on the provided cursor.
    *
-   * This asynchronous function retrieves RequestAdded events from an API endpoint,
-   * using pagination to handle large datasets efficiently. It supports both
-   * forward and backward pagination.
+   * The events are read from the event source configured with APTOS_EVENT_SOURCE.
    *
-   * @param {null | number | string} [cursor] - Optional cursor for pagination.
-   *     Can be null (for initial fetch), a timestamp number, or a string ID.
+   * @param {null | string} [cursor] - Optional cursor for pagination.
+   *     Can be null (for initial fetch), or the position of the last committed event.
    * @returns {Promise<ProcessedRequestAdded<any>[]>} A promise that resolves to
    *     an array of ProcessedRequestAdded objects, representing the fetched events.
    */
-  async fetchRequestAddedEvents(cursor: null | number | string = null): Promise<ProcessedRequestAdded<any>[]> {
+  async fetchRequestAddedEvents(cursor: null | string = null): Promise<ProcessedRequestAdded<any>[]> {
     try {
-      const endpoint = `${this.getRpcUrl()}/${env.aptos.noditKey}/v1/graphql`;
-
-      const document = gql`
-          query Account_transactions ($version: bigint!,$address: String!) {
-              account_transactions(
-                  limit: 100
-                  where: { transaction_version: { _gt: $version },
-                  account_address:{
-                      _eq: $address
-                  }
-                  }
-              ) {
-                  account_address
-                  transaction_version
-              }
-          }
-      `;
-
-      let internalCursor = 0;
-      if (Number(cursor) > this.lastTxVersion) {
-        internalCursor = Number(cursor);
-      } else {
-        internalCursor = this.lastTxVersion;
-      }
-
-      const client = new GraphQLClient(endpoint);
-      const gqlData: AptosTransactionData = await client.request({
-        document,
-        variables: {
-          version: internalCursor,
-          address: this.oracleAddress.toLowerCase(),
-        },
-      });
-
-      if (gqlData.account_transactions.length === 0) {
-        return [];
-      }
-
-      // Set in memory the last transaction version to prevent re-fetching the same events
-      this.lastTxVersion = gqlData.account_transactions[gqlData.account_transactions.length - 1].transaction_version;
-
-      const fetchedTransactionList = await this.fetchTransactionList(
-        gqlData.account_transactions.map((elem) => elem.transaction_version),
+      const { version, eventIndex } = this.parseCursor(cursor);
+      // A transaction only partly processed is fetched again, without the events already processed
+      const page = await this.eventSource.fetchRequestAddedEvents(eventIndex === null ? version : version - 1);
+      const events = page.events.filter(
+        (elem) => eventIndex === null || elem.tx_version !== version || elem.event_index > eventIndex,
       );
 
-      const _temp = fetchedTransactionList
-        .filter((elem) => elem.success)
-        .map((elem, index) => {
-          const matching_events = elem.events.filter(
-            (_event) => _event.type === `${this.oracleAddress}::oracles::RequestAdded`,
-          );
-
-          if (matching_events.length === 0) {
-            return null;
-          } else {
-            return {
-              // TODO: Does not account for transactions that surface multiple request_data events
-              ...matching_events[0],
-              tx_hash: elem.hash,
-              tx_version: gqlData.account_transactions[index].transaction_version,
-            };
-          }
-        })
-        .filter((elem) => elem != null);
-
-      const data: any[] = _temp.map((elem) => ({
-        ...elem.data,
-        notify: decodeNotifyValue(elem.data.notify?.value?.vec?.at(0) ?? ""),
-        fullData: {
-          event_id: { event_handle_id: elem.tx_hash, event_seq: elem.tx_version },
-          event_index: elem.sequence_number,
+      const data: any[] = events.map((elem) =>
+        this.toProcessedRequest({
+          event_id: { event_handle_id: elem.tx_hash ?? "", event_seq: elem.tx_version },
+          event_index: elem.event_index,
           event_data: elem.data,
           event_type: elem.type,
           decoded_event_data: "",
-        },
-      }));
+        }),
+      );
 
+      if (page.scannedVersion !== null) {
+        this.scannedCursor = page.scannedVersion.toString();
+      }
       return data;
     } catch (error: any) {
       log.error("Error fetching events", { error: error?.message });
@@ -161,10 +95,46 @@ export default class AptosIndexer extends Indexer {
     }
   }
 
+  getCursor(event: ProcessedRequestAdded<AptosEventRecord>): string {
+    return `${event.fullData.event_id.event_seq}:${event.fullData.event_index}`;
+  }
+
+  protected getCursorPosition(cursor: string): bigint {
+    return BigInt(this.parseCursor(cursor).version);
+  }
+
+  protected async getHeadPosition(): Promise<bigint | null> {
+    if (!this.reportsLag) {
+      return null;
+    }
+    const ledger = await this.aptos.getLedgerInfo();
+    return BigInt(ledger.ledger_version);
+  }
+
+  protected getGasUsed(receipt: any): number | null {
+    return receipt.gas_used === undefined ? null : Number(receipt.gas_used);
+  }
+
+  private toProcessedRequest(fullData: AptosEventRecord): ProcessedRequestAdded<AptosEventRecord> {
+    return {
+      ...(fullData.event_data as AptosRequestEvent),
+      notify: decodeNotifyValue(fullData.event_data.notify?.value?.vec?.at(0) ?? ""),
+      fullData,
+    };
+  }
+
+  restoreEvent(record: Events): ProcessedRequestAdded<AptosEventRecord> {
+    return this.toProcessedRequest({
+      event_id: { event_handle_id: record.eventHandleId, event_seq: Number(record.eventSeq) },
+      event_index: Number(record.eventIndex),
+      event_data: JSON.parse(record.eventData),
+      event_type: record.eventType,
+      decoded_event_data: JSON.parse(record.decoded_event_data),
+    });
+  }
+
   async isPreviouslyExecuted(data: ProcessedRequestAdded<any>) {
-    const aptosConfig = new AptosConfig({ network: Network.TESTNET });
-    const aptos = new Aptos(aptosConfig);
-    const view_request = await aptos.view({
+    const view_request = await this.aptos.view({
       payload: {
         function: `${this.oracleAddress}::oracles::get_response_status`,
         functionArguments: [data.request_id],
@@ -183,63 +153,49 @@ export default class AptosIndexer extends Indexer {
    * @param {ProcessedRequestAdded} data - The request data that needs to be fulfilled.
    * @param {number} status - The status of the fulfillment.
    * @param {string} result - The result of the fulfillment.
+   * @param {string | null} [signature] - The attestation of the fulfillment.
    * @returns {Promise<any>} - The receipt of the transaction.
    */
-  async sendFulfillment(data: ProcessedRequestAdded<any>, status: number, result: string) {
-    // Set up the Aptos client
-    const aptosConfig = new AptosConfig({ network: Network.TESTNET });
-    const aptos = new Aptos(aptosConfig);
-    const view_request = await aptos.view({
-      payload: {
-        function: `${this.oracleAddress}::oracles::get_response_status`,
-        functionArguments: [data.request_id],
-      },
-    });
-    if (view_request[0] !== 0) {
-      log.debug({ message: `Request: ${data.request_id} as already been processed` });
+  async sendFulfillment(data: ProcessedRequestAdded<any>, status: number, result: string, signature?: string | null) {
+    if (await this.isPreviouslyExecuted(data)) {
       return null;
     }
-    try {
-      // Build the transaction payload
-      const payload = await aptos.transaction.build.simple({
-        sender: this.account.accountAddress,
-        data: {
-          function: `${this.oracleAddress}::oracles::fulfil_request`,
-          functionArguments: [data.request_id, status, result],
-        },
-      });
 
-      // Sign and submit the transaction
-      const pendingTxn = await aptos.signAndSubmitTransaction({
-        signer: this.account,
-        transaction: payload,
-      });
+    const withProof = !!signature && (await this.supportsFulfillmentProof());
+    // Build the transaction payload
+    const payload = await this.aptos.transaction.build.simple({
+      sender: this.account.accountAddress,
+      data: withProof
+        ? {
+            function: `${this.oracleAddress}::oracles::fulfil_request_with_proof`,
+            functionArguments: [data.request_id, status, result, signature],
+          }
+        : {
+            function: `${this.oracleAddress}::oracles::fulfil_request`,
+            functionArguments: [data.request_id, status, result],
+          },
+    });
 
-      // Wait for the transaction to be processed
-      const executedTransaction = await aptos.waitForTransaction({ transactionHash: pendingTxn.hash });
+    // Sign and submit the transaction
+    const pendingTxn = await this.aptos.signAndSubmitTransaction({
+      signer: this.account,
+      transaction: payload,
+    });
 
-      log.debug("Transaction executed:", executedTransaction.hash);
-    } catch (error) {
-      console.error("Error calling entry function:", error);
-    }
+    // Wait for the transaction to be processed, throws if it was aborted
+    const executedTransaction = await this.aptos.waitForTransaction({ transactionHash: pendingTxn.hash });
+
+    log.debug("Transaction executed:", executedTransaction.hash);
+    return executedTransaction;
   }
 
-  async save(
-    event: ProcessedRequestAdded<{
-      event_id: {
-        event_handle_id: string;
-        event_seq: number;
-      };
-      event_index: number;
-      event_data: {
-        [key: string]: any;
-      };
-      event_type: string;
-      decoded_event_data: string;
-    }>,
-    data: any,
-    status: number,
-  ) {
+  async hasOracleFunction(name: string) {
+    const module = await this.aptos.getAccountModule({ accountAddress: this.oracleAddress, moduleName: "oracles" });
+    return module.abi?.exposed_functions.some((func) => func.name === name) ?? false;
+  }
+
+  async save(event: ProcessedRequestAdded<AptosEventRecord>, data: any, status: number) {
+    const { signature = null, cached = false, ...response } = data;
     const dbEventData = {
       eventHandleId: event.fullData.event_id.event_handle_id,
       eventSeq: +event.fullData.event_id.event_seq,
@@ -247,16 +203,19 @@ export default class AptosIndexer extends Indexer {
       eventType: event.fullData.event_type,
       eventIndex: event.fullData.event_index.toString(),
       decoded_event_data: JSON.stringify(event.fullData.decoded_event_data),
+      requestId: event.request_id,
       retries: 0,
-      response: JSON.stringify(data),
+      response: JSON.stringify(response),
+      signature,
+      cached,
       chain: this.getChainId(),
       status,
     };
-    log.debug({ eventHandleId: event.fullData.event_id.event_handle_id, eventSeq: +event.fullData.event_id.event_seq });
-    await prismaClient.events.create({
-      data: {
-        ...dbEventData,
-      },
+    log.debug({
+      eventHandleId: event.fullData.event_id.event_handle_id,
+      eventSeq: +event.fullData.event_id.event_seq,
+      eventIndex: event.fullData.event_index,
     });
+    await this.persist(event, dbEventData);
   }
 }
@@ -0,0 +1,221 @@
+import env from "@/env";
+import type {
+  AptosBlockMetadataTransaction,
+  AptosEventSourceName,
+  AptosRequestAddedEvent,
+  AptosTransactionData,
+} from "@/types";
+import { type Aptos, Network, isUserTransactionResponse } from "@aptos-labs/ts-sdk";
+import axios from "axios";
+import { GraphQLClient, gql } from "graphql-request";
+
+const PAGE_SIZE = 100;
+
+export interface AptosEventPage {
+  // RequestAdded events, ordered by transaction version and event index
+  events: AptosRequestAddedEvent[];
+  // Last transaction version scanned, which can be past the last event. Null when only the events tell.
+  scannedVersion: number | null;
+}
+
+/**
+ * Source of the RequestAdded events emitted by the Aptos oracle contract.
+ */
+export interface AptosEventSource {
+  /**
+   * Fetches the next page of RequestAdded events.
+   *
+   * @param {number} version - Only events of transactions after this version are returned.
+   * @returns {Promise<AptosEventPage>} The events, and how far the source scanned.
+   */
+  fetchRequestAddedEvents(version: number): Promise<AptosEventPage>;
+}
+
+/**
+ * Reads module events from the transactions of the official fullnode REST API.
+ *
+ * The fullnode can not filter module events by type, so every transaction is scanned. It needs no indexer,
+ * e.g. on a localnet, but catching up from an old version on a public network takes a while: move the
+ * checkpoint close to the deployment of the contract first.
+ */
+export class FullnodeEventSource implements AptosEventSource {
+  constructor(
+    private aptos: Aptos,
+    private eventType: string,
+  ) {}
+
+  async fetchRequestAddedEvents(version: number): Promise<AptosEventPage> {
+    const ledger = await this.aptos.getLedgerInfo();
+    // Pruned transactions can not be fetched anymore
+    const start = Math.max(version + 1, Number(ledger.oldest_ledger_version));
+    if (start > Number(ledger.ledger_version)) {
+      return { events: [], scannedVersion: null };
+    }
+
+    const transactions = await this.aptos.getTransactions({ options: { offset: start, limit: PAGE_SIZE } });
+    const events = transactions
+      .filter(isUserTransactionResponse)
+      .filter((transaction) => transaction.success)
+      .flatMap((transaction) =>
+        transaction.events
+          .map((event, index) => ({
+            tx_hash: transaction.hash,
+            tx_version: Number(transaction.version),
+            event_index: index,
+            type: event.type,
+            data: event.data,
+          }))
+          .filter((event) => event.type === this.eventType),
+      );
+
+    const last = transactions.at(-1);
+    return { events, scannedVersion: last && "version" in last ? Number(last.version) : null };
+  }
+}
+
+/**
+ * Queries module events by type from the Aptos Indexer GraphQL API.
+ */
+export class IndexerEventSource implements AptosEventSource {
+  constructor(
+    private aptos: Aptos,
+    private eventType: string,
+  ) {}
+
+  async fetchRequestAddedEvents(version: number): Promise<AptosEventPage> {
+    // Read before the events, so versions indexed in between are not skipped
+    const indexedVersion = Number(await this.aptos.getIndexerLastSuccessVersion());
+    const rows = await this.aptos.getEvents({
+      options: {
+        where: { indexed_type: { _eq: this.eventType }, transaction_version: { _gt: version } },
+        orderBy: [{ transaction_version: "asc" }, { event_index: "asc" }],
+        limit: PAGE_SIZE,
+      },
+    });
+
+    const events = rows.map((row) => ({
+      tx_hash: null,
+      tx_version: Number(row.transaction_version),
+      event_index: Number(row.event_index),
+      type: row.type,
+      data: row.data,
+    }));
+    // A full page may stop in the middle of the indexed versions
+    return { events, scannedVersion: rows.length < PAGE_SIZE ? indexedVersion : null };
+  }
+}
+
+/**
+ * Looks up the transactions of the oracle account with Nodit's GraphQL API, then reads their events from
+ * Nodit's fullnode. Only available on testnet and mainnet, and requires an API key.
+ */
+export class NoditEventSource implements AptosEventSource {
+  constructor(
+    private network: Network,
+    private apiKey: string,
+    private oracleAddress: string,
+    private eventType: string,
+  ) {}
+
+  getRpcUrl(): string {
+    return `https://aptos-${this.network === Network.TESTNET ? "testnet" : "mainnet"}.nodit.io`;
+  }
+
+  /**
+   * Fetches a list of transactions based on the provided transaction versions.
+   *
+   * @param {number[]} versions - The versions of the transactions to fetch.
+   * @returns {Promise<AptosBlockMetadataTransaction[]>} The transactions, in the same order.
+   */
+  async fetchTransactionList(versions: number[]): Promise<AptosBlockMetadataTransaction[]> {
+    return await Promise.all(
+      versions.map(async (version) => {
+        const response = await axios.get<AptosBlockMetadataTransaction>(
+          `${this.getRpcUrl()}/v1/transactions/by_version/${version}`,
+          { headers: { "X-API-KEY": this.apiKey } },
+        );
+        return response.data;
+      }),
+    );
+  }
+
+  async fetchRequestAddedEvents(version: number): Promise<AptosEventPage> {
+    const document = gql`
+        query Account_transactions ($version: bigint!,$address: String!) {
+            account_transactions(
+                limit: ${PAGE_SIZE}
+                where: { transaction_version: { _gt: $version },
+                account_address:{
+                    _eq: $address
+                }
+                }
+            ) {
+                account_address
+                transaction_version
+            }
+        }
+    `;
+
+    const client = new GraphQLClient(`${this.getRpcUrl()}/${this.apiKey}/v1/graphql`);
+    const gqlData: AptosTransactionData = await client.request({
+      document,
+      variables: { version, address: this.oracleAddress.toLowerCase() },
+    });
+    if (gqlData.account_transactions.length === 0) {
+      return { events: [], scannedVersion: null };
+    }
+
+    const transactions = await this.fetchTransactionList(
+      gqlData.account_transactions.map((elem) => elem.transaction_version),
+    );
+    const events = transactions
+      .filter((transaction) => transaction.success)
+      .flatMap((transaction) =>
+        transaction.events
+          .map((event, index) => ({
+            tx_hash: transaction.hash,
+            tx_version: Number(transaction.version),
+            event_index: index,
+            type: event.type,
+            data: event.data,
+          }))
+          .filter((event) => event.type === this.eventType),
+      );
+
+    return {
+      events,
+      // Transactions without RequestAdded events are skipped over once the page is committed
+      scannedVersion: gqlData.account_transactions[gqlData.account_transactions.length - 1].transaction_version,
+    };
+  }
+}
+
+/**
+ * Creates the configured event source of an Aptos network.
+ *
+ * @param {AptosEventSourceName} name - The kind of source.
+ * @param {Aptos} aptos - The client of the network.
+ * @param {string} oracleAddress - The address of the oracle contract.
+ * @returns {AptosEventSource} The event source.
+ */
+export const createAptosEventSource = (
+  name: AptosEventSourceName,
+  aptos: Aptos,
+  oracleAddress: string,
+): AptosEventSource => {
+  const eventType = `${oracleAddress}::oracles::RequestAdded`;
+  switch (name) {
+    case "fullnode":
+      return new FullnodeEventSource(aptos, eventType);
+    case "indexer":
+      return new IndexerEventSource(aptos, eventType);
+    case "nodit":
+      if (aptos.config.network !== Network.TESTNET && aptos.config.network !== Network.MAINNET) {
+        throw new Error(`Nodit does not serve the ${aptos.config.network} network`);
+      }
+      if (!env.aptos.noditKey) {
+        throw new Error("APTOS_NODIT_KEY is required by the nodit event source");
+      }
+      return new NoditEventSource(aptos.config.network, env.aptos.noditKey, oracleAddress, eventType);
+  }
+};
@@ -1,14 +1,32 @@
+import { signAttestation } from "@/attestation";
+import env from "@/env";
 import { log } from "@/logger";
-import { type ProcessedRequestAdded, RequestStatus } from "@/types";
+import { cursorLag, eventsFetched, fulfillmentGasUsed, fulfillments, lastSuccessfulRun } from "@/metrics";
+import { captureError, withSpan } from "@/sentry";
+import { type IndexerStatus, type ProcessedRequestAdded, RequestStatus } from "@/types";
 
-import { azureInstance, openAIInstance } from "@/integrations/openAI";
-import { xTwitterInstance } from "@/integrations/xtwitter";
-
-import { type BasicBearerAPIHandler, dynamicInstanceManager } from "@/integrations/base";
+import type { BasicBearerAPIHandler } from "@/integrations/base";
+import { dynamicInstanceManager } from "@/integrations/manager";
+import type { Events, Prisma } from "@prisma/client";
 import prismaClient from "../../prisma";
+import { type Limiter, createLimiter, processInOrder } from "./pool";
 
 // Abstract base class
 export abstract class Indexer {
+  private status: Omit<IndexerStatus, "chain" | "oracleAddress" | "orchestrator"> = {
+    running: false,
+    lastRunAt: null,
+    lastSuccessAt: null,
+    lastError: null,
+  };
+  private fulfillmentProofSupport: boolean | null = null;
+  // Cursor of the latest page fetched, for sources whose pages can end after the last RequestAdded event
+  protected scannedCursor: string | null = null;
+  private replaying = false;
+  private rerunRequested = false;
+  // Transactions are signed by the same account, so they are submitted one at a time to keep nonces in order
+  protected submissions: Limiter = createLimiter(1);
+
   constructor(
     protected oracleAddress: string,
     protected orchestrator: string,
@@ -17,7 +35,7 @@ export abstract class Indexer {
   }
 
   // Abstract: Implementation To fetch Data
-  abstract fetchRequestAddedEvents<T>(cursor: null | number | string): Promise<ProcessedRequestAdded<T>[]>;
+  abstract fetchRequestAddedEvents<T>(cursor: null | string): Promise<ProcessedRequestAdded<T>[]>;
 
   abstract isPreviouslyExecuted<T>(data: ProcessedRequestAdded<T>): Promise<boolean>;
 
@@ -28,13 +46,44 @@ export abstract class Indexer {
    * @param {IRequestAdded} data - The request data that needs to be fulfilled.
    * @param {number} status - The status of the fulfillment.
    * @param {string} result - The result of the fulfillment.
+   * @param {string | null} [signature] - The attestation of the fulfillment, submitted when the Oracle supports it.
    * @returns {Promise<any>} - The receipt of the transaction.
    */
-  abstract sendFulfillment<T>(data: ProcessedRequestAdded<T>, status: number, result: string): void;
+  abstract sendFulfillment<T>(
+    data: ProcessedRequestAdded<T>,
+    status: number,
+    result: string,
+    signature?: string | null,
+  ): Promise<any>;
+
+  /**
+   * Reads the gas used by a fulfillment transaction, for the metrics.
+   *
+   * @param {any} receipt - The receipt returned by `sendFulfillment`.
+   * @returns {number | null} The gas used, or null when the receipt does not tell.
+   */
+  protected getGasUsed(receipt: any): number | null {
+    return null;
+  }
+
+  /**
+   * Positions the head of the chain, in the same unit as `getCursorPosition`, to report the lag of the checkpoint.
+   *
+   * @returns {Promise<bigint | null>} The position of the head, or null when the chain can not tell.
+   */
+  protected async getHeadPosition(): Promise<bigint | null> {
+    return null;
+  }
+
+  // Abstract: Implementation to check whether the deployed Oracles module exposes a function
+  abstract hasOracleFunction(name: string): Promise<boolean>;
 
   // Abstract: Implementation to get chain identifier. its usually a concat between blockchain and network e.g ("ROOCH-testnet","APTOS-mainnet")
   abstract getChainId(): string;
 
+  // Abstract: Implementation to get the checkpoint cursor positioned right after an event
+  abstract getCursor(event: ProcessedRequestAdded<any>): string;
+
   getOrchestratorAddress(): string {
     return this.orchestrator.toLowerCase();
   }
@@ -43,20 +92,99 @@ export abstract class Indexer {
     return this.oracleAddress;
   }
 
-  requestHandlerSelector(url: URL): BasicBearerAPIHandler | null {
-    if (xTwitterInstance.isApprovedPath(url)) {
-      return xTwitterInstance;
+  /**
+   * Reports the health of this indexer, as observed from its latest run.
+   *
+   * @returns {IndexerStatus} The chain this indexer serves and the outcome of its latest run.
+   */
+  getStatus(): IndexerStatus {
+    return {
+      chain: this.getChainId(),
+      oracleAddress: this.getOracleAddress(),
+      orchestrator: this.getOrchestratorAddress(),
+      ...this.status,
+    };
+  }
+
+  /**
+   * Checks whether the deployed Oracle accepts attested fulfillments through `fulfil_request_with_proof`.
+   * The outcome is cached once the module could be inspected.
+   *
+   * @returns {Promise<boolean>} Whether fulfillments should carry their attestation.
+   */
+  async supportsFulfillmentProof(): Promise<boolean> {
+    if (this.fulfillmentProofSupport === null) {
+      try {
+        this.fulfillmentProofSupport = await this.hasOracleFunction("fulfil_request_with_proof");
+      } catch (err: any) {
+        log.debug({ message: "Unable to inspect the Oracles module", err: err.message });
+        return false;
+      }
     }
-    if (openAIInstance.isApprovedPath(url)) {
-      return openAIInstance;
+    return this.fulfillmentProofSupport;
+  }
+
+  /**
+   * Signs the fulfillment of a request with `ECDSA_PRIVATE_KEY`, so consumers can verify it came from this node.
+   *
+   * @param {ProcessedRequestAdded<any>} data - The request being fulfilled.
+   * @param {number} status - The status of the fulfillment.
+   * @param {string} result - The result of the fulfillment, as submitted on-chain.
+   * @returns {string | null} The attestation, or null when no ECDSA key is configured.
+   */
+  attest(data: ProcessedRequestAdded<any>, status: number, result: string): string | null {
+    if (!env.ecdsaPrivateKey) {
+      return null;
     }
-    if (azureInstance.isApprovedPath(url)) {
-      return azureInstance;
+    return signAttestation(
+      { request_id: data.request_id, url: data.params.url, pick: data.pick, status, result },
+      env.ecdsaPrivateKey,
+    );
+  }
+
+  requestHandlerSelector(url: URL): BasicBearerAPIHandler | null {
+    return dynamicInstanceManager.selectHandler(url, this.getChainId());
+  }
+
+  /**
+   * Sends a fulfillment through the submission queue, and records its outcome in the metrics.
+   *
+   * @param {ProcessedRequestAdded<any>} data - The request being fulfilled.
+   * @param {number} status - The status of the fulfillment.
+   * @param {string} result - The result of the fulfillment.
+   * @param {string | null} signature - The attestation of the fulfillment.
+   * @returns {Promise<any>} - The receipt of the transaction.
+   */
+  protected async fulfil(data: ProcessedRequestAdded<any>, status: number, result: string, signature: string | null) {
+    const labels = { chain: this.getChainId(), status };
+    const context = { chain: this.getChainId(), request_id: data.request_id, host: this.getRequestHost(data) };
+    fulfillments.inc({ ...labels, outcome: "sent" });
+    try {
+      const receipt = await this.submissions(() =>
+        withSpan("sendFulfillment", "verity.fulfil", context, () =>
+          this.sendFulfillment(data, status, result, signature),
+        ),
+      );
+      fulfillments.inc({ ...labels, outcome: "succeeded" });
+      const gasUsed = receipt ? this.getGasUsed(receipt) : null;
+      if (gasUsed !== null) {
+        fulfillmentGasUsed.observe({ chain: this.getChainId() }, gasUsed);
+      }
+      return receipt;
+    } catch (err) {
+      fulfillments.inc({ ...labels, outcome: "failed" });
+      captureError(err, context, { status });
+      throw err;
     }
-    if (!dynamicInstanceManager.loading) {
-      return dynamicInstanceManager.getInstance(url.host) || null;
+  }
+
+  // Host of the upstream a request is sent to, undefined when its URL is invalid
+  private getRequestHost(data: ProcessedRequestAdded<any>): string | undefined {
+    try {
+      return new URL(data.params.url?.includes("http") ? data.params.url : `https://${data.params.url}`).host;
+    } catch {
+      return undefined;
     }
-    return null;
   }
 
   /**
@@ -69,6 +197,14 @@ export abstract class Indexer {
    */
   abstract save(event: ProcessedRequestAdded<any>, data: any, status: number): Promise<any>;
 
+  /**
+   * Rebuilds the processed event from a previously saved database record.
+   *
+   * @param {Events} record - The saved event record.
+   * @returns {ProcessedRequestAdded<any>} The event as it was originally returned by `fetchRequestAddedEvents`.
+   */
+  abstract restoreEvent(record: Events): ProcessedRequestAdded<any>;
+
   /**
    * Processes the "RequestAdded" event.
    *
@@ -76,14 +212,14 @@ export abstract class Indexer {
    * and processes the response based on the provided "pick" value.
    *
    * @param {IRequestAdded} data - The request data that needs to be processed.
-   * @returns {Promise<{status: number, message: string} | null>} - The status and message of the processed request, or null if the request is not valid.
+   * @returns {Promise<{status: number, message: string, cached?: boolean} | null>} - The status and message of the processed request, and whether it was served from cache, or null if the request is not valid.
    */
   async processRequestAddedEvent<T>(
     data: ProcessedRequestAdded<T>,
-  ): Promise<{ status: number; message: string } | null> {
+  ): Promise<{ status: number; message: string; cached?: boolean } | null> {
     log.debug("processing request:", data.request_id);
 
-    if (data.oracle.toLowerCase() !== this.getOrchestratorAddress().toLowerCase()) {
+    if (!this.isOwnRequest(data)) {
       log.debug(
         "skipping request as it's not for this Oracle:",
         data.request_id,
@@ -98,7 +234,12 @@ export abstract class Indexer {
 
       const handler = this.requestHandlerSelector(url_object);
       if (handler) {
-        return handler.submitRequest(data);
+        return withSpan(
+          "submitRequest",
+          "verity.request",
+          { chain: this.getChainId(), request_id: data.request_id, host: url_object.host },
+          () => handler.submitRequest(data),
+        );
       }
       return { status: 406, message: "URL NOT supported" };
     } catch {
@@ -106,8 +247,132 @@ export abstract class Indexer {
     }
   }
 
+  isOwnRequest<T>(data: ProcessedRequestAdded<T>): boolean {
+    return data.oracle.toLowerCase() === this.getOrchestratorAddress().toLowerCase();
+  }
+
+  /**
+   * Checks whether a request is worth processing before any upstream call is made,
+   * e.g. whether the escrowed payment covers the cost of its fulfillment.
+   *
+   * @param {ProcessedRequestAdded<any>} data - The request to check.
+   * @returns {Promise<{status: number, message: string} | null>} - The `RequestStatus` the request is skipped with, or null to process it.
+   */
+  async preflight(data: ProcessedRequestAdded<any>): Promise<{ status: number; message: string } | null> {
+    return null;
+  }
+
+  /**
+   * Retries fulfillments previously saved with `RequestStatus.FAILED`.
+   *
+   * Each record is retried once its exponential backoff window has elapsed. Records that still fail
+   * after `env.retry.maxAttempts` retries are moved to `RequestStatus.DEAD_LETTER` and never picked up again.
+   */
+  async retryFailedEvents() {
+    const failedEvents = await prismaClient.events.findMany({
+      where: {
+        chain: this.getChainId(),
+        status: RequestStatus.FAILED,
+      },
+      orderBy: {
+        eventSeq: "asc",
+      },
+    });
+
+    for (const record of failedEvents) {
+      if (record.retries >= env.retry.maxAttempts) {
+        await prismaClient.events.update({
+          where: { id: record.id },
+          data: { status: RequestStatus.DEAD_LETTER },
+        });
+        continue;
+      }
+
+      const nextAttemptAt = record.updateAt.getTime() + env.retry.backoff * 2 ** record.retries;
+      if (Date.now() < nextAttemptAt) {
+        continue;
+      }
+
+      const retries = record.retries + 1;
+      let status = RequestStatus.SUCCESS;
+      let response = record.response;
+      let signature = record.signature;
+      let cached = record.cached;
+      try {
+        const event = this.restoreEvent(record);
+        log.debug({ message: `Retrying request: ${event.request_id}`, retries });
+
+        if (!(await this.isPreviouslyExecuted(event))) {
+          const rejection = this.isOwnRequest(event) ? await this.preflight(event) : null;
+          const data = rejection ? null : await this.processRequestAddedEvent(event);
+          if (rejection) {
+            status = rejection.status;
+            response = JSON.stringify({ message: rejection.message });
+          } else if (data) {
+            const result = JSON.stringify(data.message);
+            const { cached: fromCache = false, ...fulfillment } = data;
+            signature = this.attest(event, data.status, result);
+            cached = fromCache;
+            response = JSON.stringify(fulfillment);
+            await this.fulfil(event, data.status, result, signature);
+          }
+        }
+      } catch (err: any) {
+        log.error({ err: err.message, id: record.id, retries });
+        captureError(err, { chain: this.getChainId(), request_id: record.requestId }, { retries });
+        status = retries >= env.retry.maxAttempts ? RequestStatus.DEAD_LETTER : RequestStatus.FAILED;
+      }
+
+      await prismaClient.events.update({
+        where: { id: record.id },
+        data: { status, retries, response, signature, cached },
+      });
+    }
+  }
+
   async run() {
-    log.info(`${this.getChainId()} indexer running...`, Date.now());
+    // Runs requested while indexing, e.g. by event notifications, are coalesced into a single follow-up run
+    if (this.status.running) {
+      this.rerunRequested = true;
+      return;
+    }
+    this.status.running = true;
+    this.status.lastRunAt = new Date();
+    try {
+      await withSpan(`${this.getChainId()} indexer run`, "indexer.run", { chain: this.getChainId() }, () =>
+        this.indexNewEvents(),
+      );
+      this.status.lastSuccessAt = new Date();
+      this.status.lastError = null;
+      lastSuccessfulRun.set({ chain: this.getChainId() }, this.status.lastSuccessAt.getTime() / 1000);
+      await this.updateCursorLag();
+    } catch (err: any) {
+      log.error(`${this.getChainId()} indexer run failed`, { err: err.message });
+      captureError(err, { chain: this.getChainId() });
+      this.status.lastError = err.message;
+    } finally {
+      this.status.running = false;
+    }
+    if (this.rerunRequested) {
+      this.rerunRequested = false;
+      await this.run();
+    }
+  }
+
+  /**
+   * Reads the position this indexer resumes from.
+   *
+   * Indexers upgraded from a version without checkpoints resume from their latest saved event.
+   *
+   * @returns {Promise<string | null>} The cursor of the last committed event, or null to start from the beginning.
+   */
+  async loadCursor(): Promise<string | null> {
+    const checkpoint = await prismaClient.checkpoint.findUnique({
+      where: { chain_oracleAddress: { chain: this.getChainId(), oracleAddress: this.oracleAddress } },
+    });
+    if (checkpoint) {
+      return checkpoint.cursor;
+    }
 
     const latestCommit = await prismaClient.events.findFirst({
       where: {
@@ -115,53 +380,249 @@ export abstract class Indexer {
       },
       orderBy: {
         eventSeq: "desc",
-        // indexedAt: "desc", // Order by date in descending order
       },
     });
+    return latestCommit ? this.getLegacyCursor(latestCommit) : null;
+  }
 
-    // Fetch the latest events from the Aptos Oracles Contract
-    const newRequestsEvents = await this.fetchRequestAddedEvents(Number(latestCommit?.eventSeq ?? 0) ?? 0);
-    for (let i = 0; i < newRequestsEvents.length; i++) {
-      try {
-        const event = newRequestsEvents[i];
+  /**
+   * Converts the latest event saved before checkpoints were introduced into a cursor.
+   *
+   * @param {Events} record - The latest saved event.
+   * @returns {string} The cursor to resume from.
+   */
+  protected getLegacyCursor(record: Events): string {
+    return record.eventSeq.toString();
+  }
+
+  /**
+   * Reports how far the checkpoint is behind the head of the chain. Failures are only logged, the run succeeded.
+   */
+  private async updateCursorLag() {
+    try {
+      const [head, cursor] = await Promise.all([this.getHeadPosition(), this.loadCursor()]);
+      if (head !== null) {
+        const position = cursor === null ? BigInt(0) : this.getCursorPosition(cursor);
+        cursorLag.set({ chain: this.getChainId() }, Number(head > position ? head - position : BigInt(0)));
+      }
+    } catch (err: any) {
+      log.debug({ message: `Unable to measure the cursor lag of ${this.getChainId()}`, err: err.message });
+    }
+  }
+
+  private upsertCheckpoint(cursor: string) {
+    return prismaClient.checkpoint.upsert({
+      where: { chain_oracleAddress: { chain: this.getChainId(), oracleAddress: this.oracleAddress } },
+      create: { chain: this.getChainId(), oracleAddress: this.oracleAddress, cursor },
+      update: { cursor },
+    });
+  }
+
+  /**
+   * Saves an event record and moves the checkpoint past it, in a single transaction.
+   * An event saved before, e.g. by a replay or a concurrent run of the indexer, is updated in place.
+   *
+   * @param {ProcessedRequestAdded<any>} event - The event being saved.
+   * @param {Prisma.EventsUncheckedCreateInput} record - The database record of the event.
+   */
+  protected async persist(event: ProcessedRequestAdded<any>, record: Prisma.EventsUncheckedCreateInput) {
+    const {
+      chain = this.getChainId(),
+      eventHandleId,
+      eventSeq,
+      eventIndex,
+      status,
+      response,
+      signature,
+      cached,
+    } = record;
+    const upsert = prismaClient.events.upsert({
+      where: { chain_eventHandleId_eventSeq_eventIndex: { chain, eventHandleId, eventSeq, eventIndex } },
+      create: record,
+      update: { status, response, signature, cached },
+    });
+    if (this.replaying) {
+      // Replays cover past ranges, so the checkpoint stays put
+      await upsert;
+      return;
+    }
+
+    await prismaClient.$transaction([upsert, this.upsertCheckpoint(this.getCursor(event))]);
+  }
+
+  /**
+   * Moves the checkpoint without saving an event, e.g. past events meant for other orchestrators.
+   *
+   * @param {string} cursor - The new cursor.
+   */
+  async advanceCheckpoint(cursor: string) {
+    await this.upsertCheckpoint(cursor);
+  }
+
+  async indexNewEvents() {
+    log.info(`${this.getChainId()} indexer running...`, Date.now());
+
+    this.scannedCursor = null;
+    const newRequestsEvents = await this.fetchRequestAddedEvents(await this.loadCursor());
+    eventsFetched.inc({ chain: this.getChainId() }, newRequestsEvents.length);
+
+    // Requests notifying the same module are fulfilled in order, and events are saved in order so the
+    // cursor never moves past an event that is still in progress
+    const committed = await processInOrder(
+      newRequestsEvents,
+      env.indexerConcurrency,
+      (event) => event.notify || null,
+      async (event) => {
+        try {
+          if (await this.isPreviouslyExecuted(event)) {
+            log.debug({ message: `Request: ${event.request_id} as already been processed` });
+            return async () => {
+              // The record of the fulfillment holds its response and attestation, only record it when missing
+              const existing = await prismaClient.events.findFirst({
+                where: { chain: this.getChainId(), requestId: event.request_id },
+              });
+              if (existing) {
+                await this.advanceCheckpoint(this.getCursor(event));
+              } else {
+                await this.save(event, {}, RequestStatus.SUCCESS);
+              }
+            };
+          }
+
+          const rejection = this.isOwnRequest(event) ? await this.preflight(event) : null;
+          if (rejection) {
+            log.warn({ request_id: event.request_id, ...rejection });
+            return () => this.save(event, { message: rejection.message }, rejection.status);
+          }
 
-        if (!(await this.isPreviouslyExecuted(event))) {
           const data = await this.processRequestAddedEvent(event);
 
           log.info({ data });
 
           if (data) {
+            const result = JSON.stringify(data.message);
+            const signature = this.attest(event, data.status, result);
             try {
-              await this.sendFulfillment(event, data.status, JSON.stringify(data.message));
-              await this.save(event, data, RequestStatus.SUCCESS);
+              await this.fulfil(event, data.status, result, signature);
+              return () => this.save(event, { ...data, signature }, RequestStatus.SUCCESS);
             } catch (err: any) {
               log.error({ err: err.message });
-              await this.save(event, data, RequestStatus.FAILED);
+              return () => this.save(event, { ...data, signature }, RequestStatus.FAILED);
             }
           }
-        } else {
-          log.debug({ message: `Request: ${event.request_id} as already been processed` });
-          await this.save(event, {}, RequestStatus.SUCCESS);
+          // Requests of other orchestrators are not saved, only skipped over
+          return () => this.advanceCheckpoint(this.getCursor(event));
+        } catch (error: any) {
+          log.error(`Error processing event ${event.request_id}:`, { err: error?.message });
+          captureError(error, { chain: this.getChainId(), request_id: event.request_id });
+          // The checkpoint stays before this event, so it is processed again on the next run
+          throw error;
+        }
+      },
+    );
+
+    if (committed && this.scannedCursor) {
+      await this.advanceCheckpoint(this.scannedCursor);
+    }
+  }
+
+  /**
+   * Positions an event within the chain, to select the events of a replayed range.
+   *
+   * @param {ProcessedRequestAdded<any>} event - The event.
+   * @returns {bigint} The position of the event, e.g. its event_seq or transaction version.
+   */
+  getPosition(event: ProcessedRequestAdded<any>): bigint {
+    return this.getCursorPosition(this.getCursor(event));
+  }
+
+  /**
+   * Positions a cursor within the chain, in the same unit as `getPosition`.
+   *
+   * @param {string} cursor - The cursor.
+   * @returns {bigint} The position of the cursor.
+   */
+  protected getCursorPosition(cursor: string): bigint {
+    return BigInt(cursor);
+  }
+
+  /**
+   * Reprocesses the RequestAdded events of a range, fulfilling the requests that are still pending.
+   *
+   * The checkpoint is left untouched, so replays can run while the orchestrator is indexing new events.
+   *
+   * @param {bigint} from - First position of the range, inclusive.
+   * @param {bigint} to - Last position of the range, inclusive.
+   * @param {boolean} dryRun - Only log the requests that would be fulfilled, without calling upstream or sending transactions.
+   * @returns {Promise<ProcessedRequestAdded<any>[]>} The requests of this orchestrator that were pending in the range.
+   */
+  async replay(from: bigint, to: bigint, dryRun: boolean): Promise<ProcessedRequestAdded<any>[]> {
+    const pending: ProcessedRequestAdded<any>[] = [];
+    let cursor: string | null = from > BigInt(0) ? (from - BigInt(1)).toString() : null;
+
+    while (true) {
+      this.scannedCursor = null;
+      const events = await this.fetchRequestAddedEvents(cursor);
+      const nextCursor = this.scannedCursor ?? (events.length > 0 ? this.getCursor(events[events.length - 1]) : null);
+      if (nextCursor === null || nextCursor === cursor) {
+        break;
+      }
+
+      const inRange: ProcessedRequestAdded<any>[] = [];
+      for (const event of events.filter((event) => this.getPosition(event) >= from && this.getPosition(event) <= to)) {
+        if (this.isOwnRequest(event) && !(await this.isPreviouslyExecuted(event))) {
+          inRange.push(event);
         }
-      } catch (error) {
-        console.error(`Error processing event ${i}:`, error);
       }
+      pending.push(...inRange);
+      await this.reprocess(inRange, dryRun);
+
+      if (this.getCursorPosition(nextCursor) >= to) {
+        break;
+      }
+      cursor = nextCursor;
     }
+    return pending;
+  }
+
+  /**
+   * Fulfils pending requests outside of the indexing flow, saving their outcome like indexed events.
+   *
+   * The checkpoint is left untouched, and events saved before are updated in place.
+   *
+   * @param {ProcessedRequestAdded<any>[]} events - The pending requests of this orchestrator.
+   * @param {boolean} dryRun - Only log the requests that would be fulfilled, without calling upstream or sending transactions.
+   */
+  protected async reprocess(events: ProcessedRequestAdded<any>[], dryRun: boolean) {
+    this.replaying = true;
+    try {
+      for (const event of events) {
+        if (dryRun) {
+          const { url, method } = event.params;
+          log.info({ message: "Would fulfil request", request_id: event.request_id, method, url, pick: event.pick });
+          continue;
+        }
 
-    // await Promise.all(
-    //   newRequestsEvents.map(async (event) => {
-    //     const data = await this.processRequestAddedEvent(event);
-    //     if (data) {
-    //       try {
-    //         await this.sendFulfillment(event, data.status, JSON.stringify(data.message));
-    //         // TODO: Use the notify parameter to send transaction to the contract and function to marked in the request event
-    //         await this.save(event, data, RequestStatus.SUCCESS);
-    //       } catch (err: any) {
-    //         log.error({ err: err.message });
-    //         await this.save(event, data, RequestStatus.FAILED);
-    //       }
-    //     }
-    //   }),
-    // );
+        const rejection = await this.preflight(event);
+        if (rejection) {
+          await this.save(event, { message: rejection.message }, rejection.status);
+          continue;
+        }
+        const data = await this.processRequestAddedEvent(event);
+        if (data) {
+          const result = JSON.stringify(data.message);
+          const signature = this.attest(event, data.status, result);
+          try {
+            await this.fulfil(event, data.status, result, signature);
+            await this.save(event, { ...data, signature }, RequestStatus.SUCCESS);
+          } catch (err: any) {
+            log.error({ request_id: event.request_id, err: err.message });
+            await this.save(event, { ...data, signature }, RequestStatus.FAILED);
+          }
+        }
+      }
+    } finally {
+      this.replaying = false;
+    }
   }
 }
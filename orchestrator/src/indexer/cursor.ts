@@ -0,0 +1,47 @@
+import { SupportedChain } from "@/types";
+
+const NUMBER = /^\d+$/;
+const APTOS_CURSOR = /^\d+(:\d+)?$/;
+
+/**
+ * Checks that a cursor is in the format of the indexer of a chain, which would otherwise find no event
+ * after it and stall.
+ *
+ * @param {string} chain - The chain identifier of the indexer, e.g. ROOCH-testnet.
+ * @param {string} cursor - The cursor.
+ * @throws {Error} If the cursor is not in the format of the chain.
+ */
+export const validateCursor = (chain: string, cursor: string) => {
+  const blockchain = chain.split("-")[0].toUpperCase();
+  switch (blockchain) {
+    case SupportedChain.ROOCH:
+      if (!NUMBER.test(cursor)) {
+        throw new Error(`Invalid cursor ${cursor}: expected the event_seq of a RequestAdded event`);
+      }
+      return;
+    case SupportedChain.APTOS:
+      if (!APTOS_CURSOR.test(cursor)) {
+        throw new Error(`Invalid cursor ${cursor}: expected '<version>' or '<version>:<event index>'`);
+      }
+      return;
+    case SupportedChain.SUI: {
+      if (cursor === "0") {
+        return;
+      }
+      let id: any;
+      try {
+        id = JSON.parse(cursor);
+      } catch {
+        id = null;
+      }
+      if (typeof id?.txDigest !== "string" || !id.txDigest || !NUMBER.test(String(id.eventSeq))) {
+        throw new Error(
+          `Invalid cursor ${cursor}: expected a JSON encoded event id, e.g. '{"txDigest":"...","eventSeq":"0"}'`,
+        );
+      }
+      return;
+    }
+    default:
+      throw new Error(`Unknown chain ${chain}`);
+  }
+};
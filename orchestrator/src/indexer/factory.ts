@@ -0,0 +1,26 @@
+import { type ChainDeployment, type RoochNetwork, type SuiNetwork, SupportedChain } from "@/types";
+import type { Network } from "@aptos-labs/ts-sdk";
+import AptosIndexer from "./aptos";
+import type { Indexer } from "./base";
+import RoochIndexer from "./rooch";
+import SuiIndexer from "./sui";
+
+/**
+ * Creates the indexer of a chain deployment.
+ *
+ * @param {ChainDeployment} deployment - The chain, network, endpoints, oracle address and signer key.
+ * @returns {Indexer} The indexer of the deployment.
+ */
+export const createIndexer = (deployment: ChainDeployment): Indexer => {
+  const { chain, network, privateKey, oracleAddress, rpcUrl } = deployment;
+  switch (chain) {
+    case SupportedChain.ROOCH:
+      return new RoochIndexer(privateKey, network as RoochNetwork, oracleAddress, rpcUrl);
+    case SupportedChain.APTOS:
+      return new AptosIndexer(privateKey, network as Network, oracleAddress, deployment);
+    case SupportedChain.SUI:
+      return new SuiIndexer(privateKey, network as SuiNetwork, oracleAddress, rpcUrl);
+    default:
+      throw new Error(`Unsupported chain ${chain}`);
+  }
+};
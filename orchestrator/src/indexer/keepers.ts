@@ -0,0 +1,67 @@
+import env from "@/env";
+import { decryptSecret, encryptSecret, isEncryptedWith } from "@/keeper";
+import { Secp256k1Keypair } from "@roochnetwork/rooch-sdk";
+import prismaClient from "../../prisma";
+
+const masterKeys = () => [env.keeper.masterKey, ...env.keeper.previousMasterKeys];
+
+// Secrets are only stored in plain text when no master key is configured
+const seal = (secret: string) => (env.keeper.masterKey ? encryptSecret(secret, env.keeper.masterKey) : secret);
+
+/**
+ * Returns the private key of the keeper notifying a module, generating the keeper on first use.
+ * Keepers stored in plain text or with a previous master key are re-encrypted with the current one.
+ *
+ * @param {string} chain - The network of the keeper, e.g. testnet.
+ * @param {string} module - The notified module.
+ * @returns {Promise<string>} The private key of the keeper.
+ */
+export const getKeeperKey = async (chain: string, module: string): Promise<string> => {
+  const keeper = await prismaClient.keeper.upsert({
+    where: { chain_module: { chain, module } },
+    create: { chain, module, privateKey: seal(Secp256k1Keypair.generate().getSecretKey()) },
+    update: {},
+  });
+  const privateKey = decryptSecret(keeper.privateKey, masterKeys());
+  if (env.keeper.masterKey && !isEncryptedWith(keeper.privateKey, env.keeper.masterKey)) {
+    await prismaClient.keeper.update({ where: { id: keeper.id }, data: { privateKey: seal(privateKey) } });
+  }
+  return privateKey;
+};
+
+/**
+ * Lists every keeper with its decrypted private key and address.
+ *
+ * @returns {Promise<{chain: string, module: string, address: string, privateKey: string}[]>} The keepers.
+ */
+export const listKeepers = async () => {
+  const keepers = await prismaClient.keeper.findMany({ orderBy: [{ chain: "asc" }, { module: "asc" }] });
+  return keepers.map(({ chain, module, privateKey }) => {
+    const secret = decryptSecret(privateKey, masterKeys());
+    const address = Secp256k1Keypair.fromSecretKey(secret).getRoochAddress().toHexAddress();
+    return { chain, module, address, privateKey: secret };
+  });
+};
+
+/**
+ * Re-encrypts every keeper with the current master key, e.g. after the key moved to KEEPER_PREVIOUS_MASTER_KEYS.
+ *
+ * @returns {Promise<number>} The number of keepers re-encrypted.
+ */
+export const rotateKeeperKeys = async (): Promise<number> => {
+  const { masterKey } = env.keeper;
+  if (!masterKey) {
+    throw new Error("KEEPER_MASTER_KEY is required to encrypt the keepers");
+  }
+  const keepers = await prismaClient.keeper.findMany();
+  const stale = keepers.filter((keeper) => !isEncryptedWith(keeper.privateKey, masterKey));
+  // Decrypt everything first, so a missing previous key fails before any row is written
+  const updates = stale.map((keeper) =>
+    prismaClient.keeper.update({
+      where: { id: keeper.id },
+      data: { privateKey: encryptSecret(decryptSecret(keeper.privateKey, masterKeys()), masterKey) },
+    }),
+  );
+  await prismaClient.$transaction(updates);
+  return stale.length;
+};
@@ -0,0 +1,101 @@
+import { log } from "@/logger";
+
+export type Limiter = <R>(task: () => Promise<R>) => Promise<R>;
+
+/**
+ * Creates a limiter running at most `concurrency` tasks at once, in the order they were submitted.
+ *
+ * @param {number} concurrency - The maximum number of tasks running at once.
+ * @returns {Limiter} Runs a task once a slot is available.
+ */
+export const createLimiter = (concurrency: number): Limiter => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (task) => {
+    if (active >= Math.max(1, concurrency)) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      // Hand the slot over to the next task, so no new task can take it in between
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+};
+
+/**
+ * Processes items concurrently, then commits their results in the original order.
+ *
+ * Items sharing an ordering key are processed one after the other. A commit only runs once every
+ * previous item is committed, so progress is never recorded past an item that is still in progress.
+ * Once an item or its commit fails, no further item is started and nothing is committed past the failure,
+ * so the failed item and the ones after it are processed again on the next run.
+ *
+ * @param {T[]} items - The items to process, in order.
+ * @param {number} concurrency - The maximum number of items processed at once.
+ * @param {(item: T) => string | null} orderingKey - Items with the same key are processed sequentially, null for no ordering.
+ * @param {(item: T) => Promise<(() => Promise<void>) | null>} task - Processes an item, returning its commit if any.
+ * @returns {Promise<boolean>} Whether every commit succeeded.
+ */
+export const processInOrder = async <T>(
+  items: T[],
+  concurrency: number,
+  orderingKey: (item: T) => string | null,
+  task: (item: T) => Promise<(() => Promise<void>) | null>,
+) => {
+  const limit = createLimiter(concurrency);
+  const lastByKey = new Map<string, Promise<unknown>>();
+  let halted = false;
+  const run = async (item: T) => {
+    if (halted) {
+      return null;
+    }
+    try {
+      return await task(item);
+    } catch (err) {
+      halted = true;
+      throw err;
+    }
+  };
+
+  const pending = items.map((item) => {
+    const key = orderingKey(item);
+    const previous = (key && lastByKey.get(key)) || Promise.resolve();
+    const result = previous.then(() => limit(() => run(item)));
+    if (key) {
+      lastByKey.set(
+        key,
+        result.catch(() => undefined),
+      );
+    }
+    return result;
+  });
+
+  let committed = true;
+  for (const result of pending) {
+    const commit = await result.catch((err) => {
+      log.error({ message: "Unable to process event, halting progress until the next run", err: err.message });
+      committed = false;
+      return null;
+    });
+    if (commit && committed) {
+      try {
+        await commit();
+      } catch (err: any) {
+        log.error({ message: "Unable to commit event, halting progress until the next run", err: err.message });
+        committed = false;
+        halted = true;
+      }
+    }
+  }
+  return committed;
+};
@@ -1,8 +1,15 @@
 import env from "@/env";
-import { xTwitterInstance } from "@/integrations/xtwitter";
 import { log } from "@/logger";
-import type { IEvent, IRequestAdded, JsonRpcResponse, ProcessedRequestAdded, RoochNetwork } from "@/types";
-import { decodeNotifyValueFull } from "@/util";
+import {
+  type IEvent,
+  type IRequestAdded,
+  type JsonRpcResponse,
+  type ProcessedRequestAdded,
+  RequestStatus,
+  type RoochNetwork,
+} from "@/types";
+import { decodeNotifyValueFull, decodeOptionValue, describeVMStatus } from "@/util";
+import type { Events } from "@prisma/client";
 import {
   Args,
   RoochClient,
@@ -12,22 +19,24 @@ import {
   getRoochNodeUrl,
 } from "@roochnetwork/rooch-sdk";
 import axios from "axios";
-import prismaClient from "../../prisma";
 import { Indexer } from "./base";
+import { getKeeperKey } from "./keepers";
 
 export default class RoochIndexer extends Indexer {
   private keyPair: Secp256k1Keypair;
   private client: RoochClient;
+  private unsubscribe: (() => Promise<boolean>) | null = null;
 
   constructor(
     private privateKey: string,
     private chainId: RoochNetwork,
     protected oracleAddress: string,
+    private rpcUrl = "",
   ) {
     super(oracleAddress, Secp256k1Keypair.fromSecretKey(privateKey).getRoochAddress().toHexAddress());
     this.keyPair = Secp256k1Keypair.fromSecretKey(this.privateKey);
     const wsTransport = new RoochWebSocketTransport({
-      url: getRoochNodeUrl(this.chainId),
+      url: this.getRoochNodeUrl(),
       reconnectDelay: 1000, // Delay between reconnection attempts (default: 1000ms)
       maxReconnectAttempts: 5, // Maximum number of reconnection attempts (default: 5)
       requestTimeout: 30000, // Request timeout (default: 30000ms)
@@ -49,14 +58,12 @@ export default class RoochIndexer extends Indexer {
   /**
    * Sends unfulfilled Requests by querying for Request objects and processing them.
    * This method iterates through paginated results, identifies unfulfilled requests,
-   * and sends fulfillment responses for each.
+   * and fulfils them like indexed events, saving their outcome.
    *
-   * @returns {Promise<any[]>} An array of fulfilled request data.
+   * @param {boolean} [dryRun] - Only log the requests that would be fulfilled.
+   * @returns {Promise<any[]>} An array of the unfulfilled requests of this orchestrator.
    */
-  async sendUnfulfilledRequests() {
-    // Initialize the Rooch client with the current node URL
-    // const _client = new RoochClient({ url: this.getRoochNodeUrl() });
-
+  async sendUnfulfilledRequests(dryRun = false) {
     // Initialize cursor object for pagination
     const cursor = {
       isNextPage: true,
@@ -67,7 +74,7 @@ export default class RoochIndexer extends Indexer {
     };
 
     // Array to store skipped requests (those with response_status === 0)
-    let skippedRequests = [];
+    let skippedRequests: ProcessedRequestAdded<any>[] = [];
 
     // Continue fetching pages until there are no more items
     while (cursor.isNextPage) {
@@ -90,17 +97,12 @@ export default class RoochIndexer extends Indexer {
 
         // Extract and filter skipped requests (those with response_status === 0)
         const _skippedRequests = query.data
-          .map((elem) => {
-            return {
-              ...elem.decoded_value?.value,
-              request_id: elem.id,
-              fullData: "",
-            } as any;
-          })
-          .filter((elem) => elem.response_status === 0);
+          .filter((elem) => (elem.decoded_value as any)?.value?.response_status === 0)
+          .map((elem) => this.fromRequestObject(elem.id, (elem.decoded_value as any).value))
+          .filter((elem) => this.isOwnRequest(elem));
 
         // Combine new skipped requests with existing ones
-        skippedRequests = _skippedRequests.concat(_skippedRequests);
+        skippedRequests = skippedRequests.concat(_skippedRequests);
 
         // Update cursor for next page
         cursor.data = query.next_cursor ?? {
@@ -116,46 +118,71 @@ export default class RoochIndexer extends Indexer {
       }
     }
 
-    // // Process all skipped requests concurrently
-    // await Promise.all(
-    //   skippedRequests.map(async (event) => {
-    //     const data = await this.processRequestAddedEvent(event);
-    //     if (data) {
-    //       try {
-    //         // Send fulfillment response
-    //         const response = await this.sendFulfillment(event, data.status, JSON.stringify(data.message));
-    //         log.debug({ response }); // Log the response
-    //       } catch (err) {
-    //         log.error({ err }); // Log any errors during fulfillment
-    //       }
-    //     }
-    //   }),
-    // );
-
-    for (let i = 0; i < skippedRequests.length; i++) {
-      try {
-        await new Promise((resolve) => setTimeout(resolve, xTwitterInstance.getRequestRate));
-        const event = skippedRequests[i];
-        const data = await this.processRequestAddedEvent(event);
-        if (data) {
-          try {
-            // Send fulfillment response
-            const response = await this.sendFulfillment(event, data.status, JSON.stringify(data.message));
-            log.debug({ response }); // Log the response
-          } catch (err) {
-            log.error({ err }); // Log any errors during fulfillment
-          }
-        }
-      } catch (err) {
-        log.error({ err }); // Log any errors during fulfillment
-      }
-    }
+    // Upstream calls are throttled by the rate limiter of each handler
+    await this.reprocess(skippedRequests, dryRun);
 
     return skippedRequests; // Return the list of processed requests
   }
 
+  /**
+   * Subscribes to the RequestAdded events of the Oracle over the WebSocket transport.
+   *
+   * Notifications only wake the indexer up: events are still read from the checkpoint by `run()`, so
+   * notifications missed while disconnected are caught up on by the next run. Once the subscription errors,
+   * e.g. after the transport gave up reconnecting, the next call subscribes again.
+   *
+   * @param {() => void} onEvent - Called as soon as a RequestAdded event is emitted.
+   * @returns {Promise<boolean>} Whether the subscription is active.
+   */
+  async subscribe(onEvent: () => void): Promise<boolean> {
+    if (this.unsubscribe) {
+      return true;
+    }
+    try {
+      this.unsubscribe = await this.client.subscribeEvent({
+        filter: { event_type: `${this.oracleAddress}::oracles::RequestAdded` },
+        onMessage: () => onEvent(),
+        onError: (err) => {
+          log.warn(`${this.getChainId()} RequestAdded subscription closed, resubscribing on the next run`, {
+            err: err.message,
+          });
+          this.unsubscribe = null;
+        },
+      });
+      log.info(`${this.getChainId()} subscribed to RequestAdded events`);
+      return true;
+    } catch (err: any) {
+      log.warn(`${this.getChainId()} unable to subscribe to RequestAdded events, polling instead`, {
+        err: err.message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Rebuilds the RequestAdded event of a Request object, so it is saved and retried like indexed events.
+   * The event is identified by the id of the Request object, as its position on-chain is unknown.
+   *
+   * @param {string} id - The id of the Request object.
+   * @param {any} value - The decoded Request object.
+   * @returns {ProcessedRequestAdded<IEvent<IRequestAdded>>} The request.
+   */
+  private fromRequestObject(id: string, value: any): ProcessedRequestAdded<IEvent<IRequestAdded>> {
+    return this.toProcessedRequest({
+      event_id: { event_handle_id: id, event_seq: "0" },
+      event_type: `${this.oracleAddress}::oracles::Request`,
+      event_data: "",
+      event_index: "0",
+      decoded_event_data: {
+        abilities: 0,
+        type: `${this.oracleAddress}::oracles::Request`,
+        value: { ...value, params: { value: value.params?.value ?? value.params }, request_id: id },
+      },
+    });
+  }
+
   getRoochNodeUrl() {
-    return getRoochNodeUrl(this.chainId);
+    return this.rpcUrl || getRoochNodeUrl(this.chainId);
   }
 
   /**
@@ -165,12 +192,12 @@ export default class RoochIndexer extends Indexer {
    * using pagination to handle large datasets efficiently. It supports both
    * forward and backward pagination.
    *
-   * @param {null | number | string} [cursor] - Optional cursor for pagination.
-   *     Can be null (for initial fetch), a timestamp number, or a string ID.
+   * @param {null | string} [cursor] - Optional cursor for pagination.
+   *     Can be null (for initial fetch), or the event_seq of the last committed event.
    * @returns {Promise<ProcessedRequestAdded<any>[]>} A promise that resolves to
    *     an array of ProcessedRequestAdded objects, representing the fetched events.
    */
-  async fetchRequestAddedEvents(cursor: null | number | string = null): Promise<ProcessedRequestAdded<any>[]> {
+  async fetchRequestAddedEvents(cursor: null | string = null): Promise<ProcessedRequestAdded<any>[]> {
     try {
       const response = await axios.post(
         this.getRoochNodeUrl(),
@@ -180,7 +207,7 @@ export default class RoochIndexer extends Indexer {
           method: "rooch_getEventsByEventHandle",
           params: [
             `${this.oracleAddress}::oracles::RequestAdded`,
-            cursor === 0 ? null : cursor,
+            cursor === null || Number(cursor) === 0 ? null : Number(cursor),
 
             `${env.batchSize}`,
             false,
@@ -217,24 +244,115 @@ export default class RoochIndexer extends Indexer {
         return [];
       }
 
-      return newRequestsEvents.result.data.map((_data) => {
-        const values = _data.decoded_event_data.value;
-        const data: ProcessedRequestAdded<IEvent<IRequestAdded>> = {
-          params: values.params.value,
-          fullData: _data,
-          oracle: values.oracle,
-          pick: values.pick,
-          request_id: values.request_id,
-          notify: decodeNotifyValueFull(values.notify?.value?.vec?.value?.at(0).at(0) ?? ""),
-        };
-        return data;
-      });
+      return newRequestsEvents.result.data.map((_data) => this.toProcessedRequest(_data));
     } catch (error: any) {
       log.error("Error fetching events", { error: error?.message });
       return [];
     }
   }
 
+  getCursor(event: ProcessedRequestAdded<IEvent<IRequestAdded>>): string {
+    return event.fullData.event_id.event_seq.toString();
+  }
+
+  private toProcessedRequest(_data: IEvent<IRequestAdded>): ProcessedRequestAdded<IEvent<IRequestAdded>> {
+    const values = _data.decoded_event_data.value;
+    return {
+      params: values.params.value,
+      fullData: _data,
+      oracle: values.oracle,
+      pick: values.pick,
+      request_id: values.request_id,
+      notify: decodeNotifyValueFull(values.notify?.value?.vec?.value?.at(0).at(0) ?? ""),
+    };
+  }
+
+  restoreEvent(record: Events): ProcessedRequestAdded<IEvent<IRequestAdded>> {
+    return this.toProcessedRequest({
+      event_id: {
+        event_handle_id: record.eventHandleId,
+        event_seq: record.eventSeq.toString(),
+      },
+      event_type: record.eventType,
+      event_data: record.eventData,
+      event_index: record.eventIndex,
+      decoded_event_data: JSON.parse(record.decoded_event_data),
+    });
+  }
+
+  /**
+   * Checks the request against `registry::estimated_cost` before any upstream call is made.
+   *
+   * `fulfil_request` aborts when the registry does not price the URL, and an escrowed amount below the
+   * estimated cost means the fulfillment is not paid for. The response length is unknown at this point,
+   * so the estimate only covers the base fee and the payload.
+   *
+   * @param {ProcessedRequestAdded} data - The request to check.
+   * @returns {Promise<{status: number, message: string} | null>} - The rejection of the request, or null to process it.
+   */
+  async preflight(data: ProcessedRequestAdded<any>) {
+    try {
+      const view = await this.client.executeViewFunction({
+        target: `${this.oracleAddress}::registry::estimated_cost`,
+        args: [
+          Args.address(this.orchestrator),
+          Args.string(data.params.url),
+          Args.u64(BigInt(Buffer.byteLength(data.params.body ?? "", "utf8"))),
+          Args.u64(BigInt(0)),
+        ],
+      });
+      if (view.vm_status !== "Executed" || !view.return_values) {
+        throw new Error(`estimated_cost returned ${JSON.stringify(view.vm_status)}`);
+      }
+
+      const cost = decodeOptionValue(view.return_values[0].decoded_value);
+      if (cost === null) {
+        return {
+          status: RequestStatus.UNSUPPORTED,
+          message: `${data.params.url} is not supported by this Oracle in the registry`,
+        };
+      }
+
+      const [request] = await this.client.getObjectStates({
+        ids: [data.request_id],
+        stateOption: { decode: true },
+      });
+      const amount = BigInt((request?.decoded_value as any)?.value?.amount ?? 0);
+      const margin = amount - BigInt(cost);
+
+      log.info({ request_id: data.request_id, cost, amount: amount.toString(), margin: margin.toString() });
+      if (margin < BigInt(0)) {
+        return {
+          status: RequestStatus.UNDERFUNDED,
+          message: `Escrowed amount ${amount} does not cover the estimated cost ${cost}`,
+        };
+      }
+    } catch (err: any) {
+      // Do not hold requests back when the registry can not be read, fulfil_request enforces the cost anyway
+      log.error({ message: `Unable to estimate the cost of request ${data.request_id}`, err: err.message });
+    }
+    return null;
+  }
+
+  /**
+   * Reads the URL prefixes this orchestrator advertises in `registry::get_supported_urls`.
+   *
+   * @returns {Promise<string[]>} - The advertised URL prefixes.
+   */
+  async fetchSupportedUrls(): Promise<string[]> {
+    const view = await this.client.executeViewFunction({
+      target: `${this.oracleAddress}::registry::get_supported_urls`,
+      args: [Args.address(this.orchestrator)],
+    });
+    if (view.vm_status !== "Executed" || !view.return_values) {
+      throw new Error(`get_supported_urls returned ${JSON.stringify(view.vm_status)}`);
+    }
+
+    // Decoded structs are either wrapped in `value` or flattened, depending on the node version
+    const urls = (view.return_values[0].decoded_value ?? []) as any[];
+    return urls.map((url) => url?.value?.url_prefix ?? url?.url_prefix).filter((prefix) => typeof prefix === "string");
+  }
+
   async isPreviouslyExecuted(data: ProcessedRequestAdded<any>) {
     const view = await this.client.executeViewFunction({
       target: `${this.oracleAddress}::oracles::get_response_status`,
@@ -253,9 +371,10 @@ export default class RoochIndexer extends Indexer {
    * @param {ProcessedRequestAdded} data - The request data that needs to be fulfilled.
    * @param {number} status - The status of the fulfillment.
    * @param {string} result - The result of the fulfillment.
+   * @param {string | null} [signature] - The attestation of the fulfillment.
    * @returns {Promise<any>} - The receipt of the transaction.
    */
-  async sendFulfillment(data: ProcessedRequestAdded<any>, status: number, result: string) {
+  async sendFulfillment(data: ProcessedRequestAdded<any>, status: number, result: string, signature?: string | null) {
     const view = await this.client.executeViewFunction({
       target: `${this.oracleAddress}::oracles::get_response_status`,
       args: [Args.objectId(data.request_id)],
@@ -266,30 +385,20 @@ export default class RoochIndexer extends Indexer {
       return null;
     }
 
-    const keeper_key = await prismaClient.keeper.upsert({
-      where: {
-        chain_module: {
-          module: data.notify ?? "",
-          chain: this.chainId,
-        },
-      },
-      create: {
-        module: data.notify ?? "",
-        chain: this.chainId,
-        privateKey: Secp256k1Keypair.generate().getSecretKey(),
-      },
-      update: {},
-    });
+    const keeper = Secp256k1Keypair.fromSecretKey(await getKeeperKey(this.chainId, data.notify ?? ""));
+
+    const args = [
+      Args.objectId(data.request_id),
+      Args.u16(status),
+      Args.string(result),
+      Args.address(keeper.getRoochAddress().toHexAddress()),
+    ];
+    const withProof = !!signature && (await this.supportsFulfillmentProof());
 
     const tx = new Transaction();
     tx.callFunction({
-      target: `${this.oracleAddress}::oracles::fulfil_request`,
-      args: [
-        Args.objectId(data.request_id),
-        Args.u16(status),
-        Args.string(result),
-        Args.address(Secp256k1Keypair.fromSecretKey(keeper_key.privateKey).getRoochAddress().toHexAddress()),
-      ],
+      target: `${this.oracleAddress}::oracles::${withProof ? "fulfil_request_with_proof" : "fulfil_request"}`,
+      args: withProof ? [...args, Args.string(signature ?? "")] : args,
     });
 
     tx.setMaxGas(1000000000);
@@ -299,10 +408,15 @@ export default class RoochIndexer extends Indexer {
       signer: this.keyPair,
     });
 
+    const failure = describeVMStatus(receipt.execution_info.status);
+    if (failure) {
+      throw new Error(`Fulfillment of ${data.request_id} failed: ${failure}`);
+    }
+
     const notify_module = data.notify?.split("::") ?? [];
 
     log.info({
-      address: Secp256k1Keypair.fromSecretKey(keeper_key.privateKey).getRoochAddress().toHexAddress(),
+      address: keeper.getRoochAddress().toHexAddress(),
       target: data.notify ?? "",
       oracleAddress: this.oracleAddress,
       receipt: receipt.execution_info,
@@ -326,7 +440,7 @@ export default class RoochIndexer extends Indexer {
           tx.setMaxGas(2_0000_0000);
           const notification_receipt = await this.client.signAndExecuteTransaction({
             transaction: tx,
-            signer: Secp256k1Keypair.fromSecretKey(keeper_key.privateKey),
+            signer: keeper,
           });
           log.info({ notification_receipt });
         }
@@ -334,14 +448,40 @@ export default class RoochIndexer extends Indexer {
     } catch (err) {
       log.error({
         request_id: data.request_id,
-        notifier: Secp256k1Keypair.fromSecretKey(keeper_key.privateKey).getRoochAddress().toHexAddress(),
+        notifier: keeper.getRoochAddress().toHexAddress(),
         err: err,
       });
     }
     return receipt;
   }
 
+  // The checkpoint is the event_seq of the last processed RequestAdded event, so the lag counts the pending events
+  protected async getHeadPosition(): Promise<bigint | null> {
+    const response = await axios.post(this.getRoochNodeUrl(), {
+      id: 101,
+      jsonrpc: "2.0",
+      method: "rooch_getEventsByEventHandle",
+      params: [`${this.oracleAddress}::oracles::RequestAdded`, null, "1", true, { decode: false }],
+    });
+    const latest = response.data?.result?.data?.[0];
+    return latest ? BigInt(latest.event_id.event_seq) : null;
+  }
+
+  protected getGasUsed(receipt: any): number | null {
+    const gasUsed = receipt.execution_info?.gas_used;
+    return gasUsed === undefined ? null : Number(gasUsed);
+  }
+
+  async hasOracleFunction(name: string) {
+    const module_abi = await this.client.getModuleAbi({
+      moduleAddr: this.oracleAddress,
+      moduleName: "oracles",
+    });
+    return module_abi.functions.some((func) => func.name === name);
+  }
+
   async save(event: ProcessedRequestAdded<IEvent<IRequestAdded>>, data: any, status: number) {
+    const { signature = null, cached = false, ...response } = data;
     const dbEventData = {
       eventHandleId: event.fullData.event_id.event_handle_id,
       eventSeq: +event.fullData.event_id.event_seq,
@@ -349,16 +489,15 @@ export default class RoochIndexer extends Indexer {
       eventType: event.fullData.event_type,
       eventIndex: event.fullData.event_index,
       decoded_event_data: JSON.stringify(event.fullData.decoded_event_data),
+      requestId: event.request_id,
       retries: 0,
-      response: JSON.stringify(data),
+      response: JSON.stringify(response),
+      signature,
+      cached,
       chain: this.getChainId(),
       status,
     };
 
-    await prismaClient.events.create({
-      data: {
-        ...dbEventData,
-      },
-    });
+    await this.persist(event, dbEventData);
   }
 }
@@ -0,0 +1,217 @@
+import env from "@/env";
+import { log } from "@/logger";
+import type { ProcessedRequestAdded, SuiNetwork, SuiRequestEvent } from "@/types";
+import { bcs } from "@mysten/sui/bcs";
+import { type EventId, SuiClient, type SuiEvent, getFullnodeUrl } from "@mysten/sui/client";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import type { Events } from "@prisma/client";
+import { Indexer } from "./base";
+
+export default class SuiIndexer extends Indexer {
+  private keyPair: Ed25519Keypair;
+  private client: SuiClient;
+
+  constructor(
+    private privateKey: string,
+    private chainId: SuiNetwork,
+    protected oracleAddress: string,
+    private rpcUrl = "",
+  ) {
+    const keyPair = Ed25519Keypair.fromSecretKey(privateKey);
+    super(oracleAddress, keyPair.getPublicKey().toSuiAddress());
+    this.keyPair = keyPair;
+    this.client = new SuiClient({ url: this.getRpcUrl() });
+    log.info(`Sui Indexer initialized`);
+    log.info(`Chain ID: ${this.getChainId()} \n\t\tOrchestrator Oracle Node Address: ${this.orchestrator}`);
+  }
+
+  getChainId(): string {
+    return `SUI-${this.chainId}`;
+  }
+
+  getRpcUrl(): string {
+    return this.rpcUrl || getFullnodeUrl(this.chainId);
+  }
+
+  /**
+   * Sui paginates events by `(txDigest, eventSeq)` rather than by a numeric sequence, so the cursor is
+   * the JSON encoded event id of the last committed event.
+   *
+   * @param {ProcessedRequestAdded<SuiEvent>} event - The committed event.
+   * @returns {string} The cursor to resume after this event.
+   */
+  getCursor(event: ProcessedRequestAdded<SuiEvent>): string {
+    return JSON.stringify(event.fullData.id);
+  }
+
+  private parseCursor(cursor: null | string): EventId | null {
+    const id = cursor ? JSON.parse(cursor) : null;
+    // Any other value, e.g. a checkpoint rewound to "0", restarts from the first event
+    return id?.txDigest ? (id as EventId) : null;
+  }
+
+  getPosition(): bigint {
+    throw new Error("Sui events can not be replayed by position");
+  }
+
+  protected getLegacyCursor(record: Events): string {
+    return JSON.stringify({ txDigest: record.eventHandleId, eventSeq: record.eventIndex });
+  }
+
+  /**
+   * Fetches a list of RequestAdded events based on the provided cursor.
+   *
+   * This asynchronous function queries the Sui fullnode for RequestAdded events emitted by the
+   * Oracle package, in ascending order, starting after the provided cursor.
+   *
+   * @param {null | string} [cursor] - Optional cursor for pagination.
+   *     Can be null (for initial fetch), or the JSON encoded event id of the last committed event.
+   * @returns {Promise<ProcessedRequestAdded<any>[]>} A promise that resolves to
+   *     an array of ProcessedRequestAdded objects, representing the fetched events.
+   */
+  async fetchRequestAddedEvents(cursor: null | string = null): Promise<ProcessedRequestAdded<any>[]> {
+    try {
+      const response = await this.client.queryEvents({
+        query: { MoveEventType: `${this.oracleAddress}::oracles::RequestAdded` },
+        cursor: this.parseCursor(cursor),
+        limit: Math.min(Number(env.batchSize), 50),
+        order: "ascending",
+      });
+
+      log.debug(response.data.length > 0 ? `fetched ${response.data.length} events successfully` : "No New Event");
+
+      if (response.data.length === 0) {
+        return [];
+      }
+
+      return response.data.map((_event) => this.toProcessedRequest(_event));
+    } catch (error: any) {
+      log.error("Error fetching events", { error: error?.message });
+      return [];
+    }
+  }
+
+  private toProcessedRequest(_event: SuiEvent): ProcessedRequestAdded<SuiEvent> {
+    const values = _event.parsedJson as SuiRequestEvent;
+    return {
+      params: values.params,
+      fullData: _event,
+      oracle: values.oracle,
+      pick: values.pick,
+      request_id: values.request_id,
+      notify: values.notify ?? "",
+    };
+  }
+
+  restoreEvent(record: Events): ProcessedRequestAdded<SuiEvent> {
+    return this.toProcessedRequest({
+      id: { txDigest: record.eventHandleId, eventSeq: record.eventIndex },
+      packageId: this.oracleAddress,
+      transactionModule: "oracles",
+      sender: "",
+      type: record.eventType,
+      parsedJson: JSON.parse(record.decoded_event_data),
+      bcs: record.eventData,
+      bcsEncoding: "base64",
+      timestampMs: record.eventSeq.toString(),
+    });
+  }
+
+  async isPreviouslyExecuted(data: ProcessedRequestAdded<any>) {
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.oracleAddress}::oracles::get_response_status`,
+      arguments: [tx.object(data.request_id)],
+    });
+
+    const view = await this.client.devInspectTransactionBlock({
+      transactionBlock: tx,
+      sender: this.keyPair.getPublicKey().toSuiAddress(),
+    });
+
+    const returnValue = view.results?.[0]?.returnValues?.[0];
+    if (view.error || !returnValue) {
+      throw new Error(`Unable to read response status for request ${data.request_id}: ${view.error}`);
+    }
+
+    if (bcs.u16().parse(Uint8Array.from(returnValue[0])) !== 0) {
+      log.debug({ message: `Request: ${data.request_id} as already been processed` });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Sends a fulfillment transaction to the Sui Oracles Contract.
+   *
+   * @param {ProcessedRequestAdded} data - The request data that needs to be fulfilled.
+   * @param {number} status - The status of the fulfillment.
+   * @param {string} result - The result of the fulfillment.
+   * @param {string | null} [signature] - The attestation of the fulfillment.
+   * @returns {Promise<any>} - The receipt of the transaction.
+   */
+  async sendFulfillment(data: ProcessedRequestAdded<any>, status: number, result: string, signature?: string | null) {
+    if (await this.isPreviouslyExecuted(data)) {
+      return null;
+    }
+
+    const withProof = !!signature && (await this.supportsFulfillmentProof());
+
+    const tx = new Transaction();
+    const args = [tx.object(data.request_id), tx.pure.u16(status), tx.pure.string(result)];
+    tx.moveCall({
+      target: `${this.oracleAddress}::oracles::${withProof ? "fulfil_request_with_proof" : "fulfil_request"}`,
+      arguments: withProof ? [...args, tx.pure.string(signature ?? "")] : args,
+    });
+
+    const receipt = await this.client.signAndExecuteTransaction({
+      transaction: tx,
+      signer: this.keyPair,
+      options: { showEffects: true },
+    });
+
+    await this.client.waitForTransaction({ digest: receipt.digest });
+
+    if (receipt.effects?.status.status !== "success") {
+      throw new Error(`Fulfillment of ${data.request_id} failed: ${receipt.effects?.status.error}`);
+    }
+
+    log.debug("Transaction executed:", receipt.digest);
+    return receipt;
+  }
+
+  protected getGasUsed(receipt: any): number | null {
+    const gasUsed = receipt.effects?.gasUsed;
+    if (!gasUsed) {
+      return null;
+    }
+    return Number(gasUsed.computationCost) + Number(gasUsed.storageCost) - Number(gasUsed.storageRebate);
+  }
+
+  async hasOracleFunction(name: string) {
+    const module = await this.client.getNormalizedMoveModule({ package: this.oracleAddress, module: "oracles" });
+    return name in module.exposedFunctions;
+  }
+
+  async save(event: ProcessedRequestAdded<SuiEvent>, data: any, status: number) {
+    const { signature = null, cached = false, ...response } = data;
+    const dbEventData = {
+      eventHandleId: event.fullData.id.txDigest,
+      eventSeq: +(event.fullData.timestampMs ?? 0),
+      eventData: event.fullData.bcs,
+      eventType: event.fullData.type,
+      eventIndex: event.fullData.id.eventSeq,
+      decoded_event_data: JSON.stringify(event.fullData.parsedJson),
+      requestId: event.request_id,
+      retries: 0,
+      response: JSON.stringify(response),
+      signature,
+      cached,
+      chain: this.getChainId(),
+      status,
+    };
+
+    await this.persist(event, dbEventData);
+  }
+}
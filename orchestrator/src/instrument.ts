@@ -0,0 +1,6 @@
+import "dotenv/config";
+import env from "./env";
+import { initSentry } from "./sentry";
+
+// Imported first by the entry point, so that Sentry instruments the modules loaded after it
+initSentry(env.sentry);
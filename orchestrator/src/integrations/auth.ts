@@ -0,0 +1,95 @@
+import type { AuthorizableRequest } from "./base";
+
+/**
+ * How a handler adds its credentials to the requests it sends upstream.
+ *
+ * Values are templates of the secrets, e.g. `Bearer {{token}}`, where `token` is the access token of the handler.
+ */
+export interface AuthStrategy {
+  // Headers set on every request, e.g. { "x-api-key": "{{token}}" }
+  headers?: Record<string, string>;
+  // Query parameters set on every request, e.g. { api_key: "{{token}}" }
+  query?: Record<string, string>;
+  // Sent as an `Authorization: Basic` header
+  basic?: { username: string; password: string };
+  // Values of the templates, besides the access token of the handler
+  secrets?: Record<string, string>;
+}
+
+/**
+ * Raised when a handler can not obtain its credentials, e.g. from a token endpoint, which is a configuration
+ * problem of the orchestrator rather than a response of the upstream.
+ */
+export class AuthorizationError extends Error {
+  constructor(
+    public hosts: string[],
+    reason: string,
+  ) {
+    super(`Unable to authorize requests to ${hosts.join(", ")}: ${reason}`);
+  }
+}
+
+export const BEARER_AUTH: AuthStrategy = { headers: { Authorization: "Bearer {{token}}" } };
+
+const TEMPLATE_VARIABLE = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Lists the secrets referenced by the templates of a strategy.
+ *
+ * @param {AuthStrategy} strategy - The strategy.
+ * @returns {string[]} The names of the secrets.
+ */
+export const templateSecrets = (strategy: AuthStrategy): string[] =>
+  Array.from(
+    new Set(
+      [
+        ...Object.values(strategy.headers ?? {}),
+        ...Object.values(strategy.query ?? {}),
+        ...Object.values(strategy.basic ?? {}),
+      ].flatMap((template) => Array.from(template.matchAll(TEMPLATE_VARIABLE), ([, name]) => name)),
+    ),
+  );
+
+const render = (template: string, secrets: Record<string, string>) =>
+  template.replace(TEMPLATE_VARIABLE, (_match, name: string) => {
+    if (secrets[name] === undefined) {
+      throw new Error(`Unknown secret ${name}`);
+    }
+    return secrets[name];
+  });
+
+const renderAll = (templates: Record<string, string>, secrets: Record<string, string>) =>
+  Object.fromEntries(Object.entries(templates).map(([name, template]) => [name, render(template, secrets)]));
+
+/**
+ * Signs a request according to an auth strategy.
+ *
+ * @param {AuthorizableRequest} request - The request to be sent upstream.
+ * @param {AuthStrategy} strategy - How the credentials are added to the request.
+ * @param {string} token - The access token of the handler, available to the templates as `token`.
+ * @returns {AuthorizableRequest} The request, including the credentials.
+ * @throws {Error} If a template references an unknown secret.
+ */
+export const applyAuthStrategy = (
+  request: AuthorizableRequest,
+  strategy: AuthStrategy,
+  token: string,
+): AuthorizableRequest => {
+  const secrets = { token, ...strategy.secrets };
+  const headers = { ...request.headers, ...renderAll(strategy.headers ?? {}, secrets) };
+  if (strategy.basic) {
+    const credentials = `${render(strategy.basic.username, secrets)}:${render(strategy.basic.password, secrets)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  let url = request.url;
+  if (strategy.query) {
+    const url_object = new URL(request.url);
+    for (const [name, value] of Object.entries(renderAll(strategy.query, secrets))) {
+      url_object.searchParams.set(name, value);
+    }
+    url = url_object.toString();
+  }
+
+  return { ...request, url, headers };
+};
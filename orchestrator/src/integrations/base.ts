@@ -1,18 +1,90 @@
+import { createHash } from "node:crypto";
 import { log } from "@/logger";
+import { upstreamLatency } from "@/metrics";
+import { captureError } from "@/sentry";
 import type { ProcessedRequestAdded } from "@/types";
 import { isValidJson } from "@/util";
 import axios, { type AxiosResponse } from "axios";
 import jsonata from "jsonata";
-import prismaClient from "prisma";
+import { type AuthStrategy, AuthorizationError, BEARER_AUTH, applyAuthStrategy } from "./auth";
+import {
+  type CompiledRequestPolicy,
+  checkRequestPolicy,
+  limitResponseSize,
+  selectRequestPolicy,
+  stripHeaders,
+} from "./policy";
+import { QuotaExceededError, type RateLimitOptions, type TokenBucket, getRateLimiter } from "./rateLimiter";
+
+export interface AuthorizableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: any;
+}
+
+export interface CachedResponse {
+  status: number;
+  data: any;
+}
+
+export interface ResponseCacheStore {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, response: CachedResponse, ttl: number): Promise<void>;
+}
+
+export interface HandlerOptions extends Omit<RateLimitOptions, "rate"> {
+  // Lifetime in ms of cached responses, caching is disabled when 0
+  cacheTtl?: number;
+  cache?: ResponseCacheStore | null;
+  // How the credentials are added to requests, a Bearer token by default
+  auth?: AuthStrategy;
+  // Restrictions on the requests sent to the supported paths, only the policies of the supported hosts are kept
+  policies?: CompiledRequestPolicy[];
+  // Maximum size in bytes of the result submitted on-chain, unlimited when 0. Request policies can override it.
+  maxResponseSize?: number;
+}
+
+/**
+ * Computes the cache key of a request, before its credentials are added.
+ *
+ * @param {AuthorizableRequest} request - The request to be sent upstream.
+ * @returns {string} The hex encoded sha256 of the method, URL, headers and body of the request.
+ */
+export const requestCacheKey = (request: AuthorizableRequest): string =>
+  createHash("sha256")
+    .update(JSON.stringify([request.method.toUpperCase(), request.url, request.headers, request.data ?? null]))
+    .digest("hex");
+
 export abstract class BasicBearerAPIHandler {
-  protected last_executed = 0;
+  protected limiter: TokenBucket;
+  protected cacheTtl: number;
+  protected cache: ResponseCacheStore | null;
+  protected auth: AuthStrategy;
+  protected policies: CompiledRequestPolicy[];
+  protected maxResponseSize: number;
 
   constructor(
     protected accessToken: string,
     protected supported_host: string[],
     protected supported_paths: string[],
     protected rate: number,
-  ) {}
+    {
+      cacheTtl = 0,
+      cache = null,
+      auth = BEARER_AUTH,
+      policies = [],
+      maxResponseSize = 0,
+      ...limits
+    }: HandlerOptions = {},
+  ) {
+    this.limiter = getRateLimiter(supported_host.join(","), { ...limits, rate });
+    this.cacheTtl = cacheTtl;
+    this.cache = cache;
+    this.auth = auth;
+    this.policies = policies.filter((policy) => supported_host.includes(policy.domain));
+    this.maxResponseSize = maxResponseSize;
+  }
 
   get hosts() {
     return this.supported_host;
@@ -37,57 +109,156 @@ export abstract class BasicBearerAPIHandler {
     return this.accessToken;
   }
 
+  /**
+   * Selects the policy restricting the requests sent to a path.
+   *
+   * @param {string} path - The path of the request.
+   * @returns {CompiledRequestPolicy | null} The policy, or null when requests to this path are unrestricted.
+   */
+  getPolicy(path: string): CompiledRequestPolicy | null {
+    return selectRequestPolicy(this.policies, path);
+  }
+
   abstract validatePayload(path: string, payload: string | null): boolean;
 
-  async submitRequest(data: ProcessedRequestAdded<any>): Promise<{ status: number; message: string }> {
+  /**
+   * Signs an outgoing request with the credentials of this handler.
+   *
+   * @param {AuthorizableRequest} request - The request to be sent upstream.
+   * @returns {Promise<AuthorizableRequest>} The request, including the authorization of this handler.
+   */
+  protected async authorize(request: AuthorizableRequest): Promise<AuthorizableRequest> {
+    return applyAuthStrategy(request, this.auth, this.getAccessToken() ?? "");
+  }
+
+  /**
+   * Called when the upstream rejects the credentials of this handler, so they can be renewed.
+   */
+  protected invalidateCredentials(): void {}
+
+  /**
+   * Sends the request upstream, unless a response to an identical request is cached.
+   *
+   * @param {AuthorizableRequest} request - The request, without the credentials of this handler.
+   * @returns {Promise<CachedResponse & {cached: boolean}>} The response, and whether it was served from the cache.
+   */
+  private async fetch(request: AuthorizableRequest): Promise<CachedResponse & { cached: boolean }> {
+    const key = this.cache && this.cacheTtl > 0 ? requestCacheKey(request) : null;
+    if (key) {
+      try {
+        const cached = await this.cache?.get(key);
+        if (cached) {
+          log.debug({ message: `Serving ${request.url} from cache`, key });
+          return { ...cached, cached: true };
+        }
+      } catch (err: any) {
+        log.error({ message: `Unable to read the cached response of ${request.url}`, err: err.message });
+      }
+    }
+
+    await this.limiter.acquire();
+    // Credentials are obtained outside of the upstream timer, their failures are not the upstream's
+    const authorized = await this.authorize(request);
+    const endTimer = upstreamLatency.startTimer({ host: new URL(request.url).host });
+    let response: AxiosResponse<any, any>;
     try {
-      const currentTime = Date.now();
-      const timeSinceLastExecution = currentTime - this.last_executed;
+      response = await axios(authorized);
+      endTimer({ status: response.status });
+    } catch (err: any) {
+      endTimer({ status: err?.response?.status ?? "error" });
+      throw err;
+    }
+    this.limiter.observe(response.headers);
 
-      if (timeSinceLastExecution < this.getRequestRate) {
-        const waitTime = this.getRequestRate - timeSinceLastExecution;
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
+    if (key) {
+      try {
+        await this.cache?.set(key, { status: response.status, data: response.data }, this.cacheTtl);
+      } catch (err: any) {
+        log.error({ message: `Unable to cache the response of ${request.url}`, err: err.message });
       }
+    }
+    return { status: response.status, data: response.data, cached: false };
+  }
 
-      this.last_executed = Date.now();
+  /**
+   * Fulfils a request, limiting the size of its result whatever the outcome.
+   *
+   * @param {ProcessedRequestAdded<any>} data - The request.
+   * @returns {Promise<{status: number, message: string, cached?: boolean}>} The status and result to submit on-chain.
+   */
+  async submitRequest(
+    data: ProcessedRequestAdded<any>,
+  ): Promise<{ status: number; message: string; cached?: boolean }> {
+    const { policy, ...response } = await this.sendRequest(data);
+    const maxSize = policy?.maxResponseSize ?? this.maxResponseSize;
+    const limited = limitResponseSize(response, maxSize, policy?.oversizedResponse ?? "reject");
+    if (limited.message !== response.message) {
+      log.warn({ message: `Response of ${data.request_id} exceeds ${maxSize} bytes`, status: limited.status });
+    }
+    return { ...limited, cached: response.cached };
+  }
 
+  private async sendRequest(
+    data: ProcessedRequestAdded<any>,
+  ): Promise<{ status: number; message: string; cached?: boolean; policy?: CompiledRequestPolicy | null }> {
+    let policy: CompiledRequestPolicy | null = null;
+    try {
       const url = data.params.url?.includes("http") ? data.params.url : `https://${data.params.url}`;
 
+      let pathname: string;
       try {
         const url_object = new URL(url);
         if (!this.isApprovedPath(url_object)) {
           return { status: 406, message: `${url_object} is supposed by this orchestrator` };
         }
-        if (!this.validatePayload(url_object.pathname, data.params.body)) {
-          return { status: 406, message: `Invalid Payload` };
-        }
+        pathname = url_object.pathname;
       } catch (err) {
         return { status: 406, message: `Invalid Domain Name` };
       }
 
-      const token = this.getAccessToken();
-      let request: AxiosResponse<any, any>;
-      if (isValidJson(data.params.headers) && isValidJson(data.params.body)) {
+      policy = this.getPolicy(pathname);
+      const headers = stripHeaders(
+        isValidJson(data.params.headers) && data.params.headers.trim() ? JSON.parse(data.params.headers) : {},
+        policy,
+      );
+      const rejection = policy
+        ? checkRequestPolicy(policy, { method: data.params.method, headers, body: data.params.body })
+        : null;
+      if (rejection) {
+        return { ...rejection, policy };
+      }
+      if (!this.validatePayload(pathname, data.params.body)) {
+        return { status: 406, message: `Invalid Payload`, policy };
+      }
+
+      let request: CachedResponse & { cached: boolean };
+      try {
         // TODO: Replace direct requests via axios with requests via VerityClient TS module
-        request = await axios({
-          method: data.params.method,
-          data: JSON.parse(data.params.body),
-          url: url,
-          headers: {
-            ...JSON.parse(data.params.headers),
-            Authorization: `Bearer ${token}`,
-          },
-        });
-        // return { status: request.status, message: request.data };
-      } else {
-        request = await axios({
-          method: data.params.method,
-          data: data.params.body,
-          url: url,
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
+        if (isValidJson(data.params.headers) && isValidJson(data.params.body)) {
+          request = await this.fetch({
+            method: data.params.method,
+            data: JSON.parse(data.params.body),
+            url: url,
+            headers,
+          });
+        } else {
+          request = await this.fetch({
+            method: data.params.method,
+            data: data.params.body,
+            url: url,
+            headers: {},
+          });
+        }
+      } catch (err) {
+        if (err instanceof QuotaExceededError) {
+          return { status: 429, message: err.message, policy };
+        }
+        if (err instanceof AuthorizationError) {
+          log.error({ message: err.message, request_id: data.request_id });
+          captureError(err, { request_id: data.request_id, host: this.supported_host.join(",") });
+          return { status: 500, message: err.message, policy };
+        }
+        throw err;
       }
 
       try {
@@ -97,10 +268,14 @@ export abstract class BasicBearerAPIHandler {
         );
         const result =
           data.pick === "." ? JSON.stringify(request.data) : JSON.stringify(await expression.evaluate(request.data));
-        log.info({ status: request.status, message: result });
-        return { status: request.status, message: result };
+        log.info({ status: request.status, message: result, cached: request.cached });
+        return { status: request.status, message: result, cached: request.cached, policy };
       } catch {
-        return { status: 409, message: "`Pick` value provided could not be resolved on the returned response" };
+        return {
+          status: 409,
+          message: "`Pick` value provided could not be resolved on the returned response",
+          policy,
+        };
       }
       // return { status: request.status, message: result };
     } catch (error: any) {
@@ -114,7 +289,16 @@ export abstract class BasicBearerAPIHandler {
         // Handle Axios-specific errors
         if (error.response) {
           // Server responded with a status other than 2xx
-          return { status: error.response.status, message: error.response.data };
+          this.limiter.observe(error.response.headers);
+          if (error.response.status === 401) {
+            this.invalidateCredentials();
+          }
+          const body = error.response.data;
+          return {
+            status: error.response.status,
+            message: typeof body === "string" ? body : JSON.stringify(body),
+            policy,
+          };
         } else if (error.request) {
           // No response received
           return { status: 504, message: "No response received" };
@@ -123,6 +307,7 @@ export abstract class BasicBearerAPIHandler {
           return { status: 500, message: "Unexpected error" };
         }
       }
+      captureError(error, { request_id: data.request_id, host: this.supported_host.join(",") });
     }
     return { status: 500, message: "Something unexpected Happened" };
   }
@@ -133,49 +318,3 @@ export default class APIBaseIntegration extends BasicBearerAPIHandler {
     return true;
   }
 }
-
-export class DynamicInstanceManager {
-  private instances: Map<string, APIBaseIntegration> = new Map();
-  private isLoading = true;
-
-  constructor() {
-    this.initialize();
-  }
-
-  public async initialize() {
-    const supportedUrls = await prismaClient.supportedUrl.findMany({
-      where: {
-        authKey: "BEARER",
-      },
-    });
-
-    for (const url of supportedUrls) {
-      this.instances.set(
-        url.domain,
-        new APIBaseIntegration(url.authKey, [url.domain], url.supported_path, Number(url.requestRate)),
-      );
-    }
-
-    this.isLoading = false;
-  }
-
-  public getInstance(domain: string): APIBaseIntegration | undefined {
-    if (this.isLoading) {
-      throw new Error("DynamicInstanceManager is still loading. Try again later.");
-    }
-    return this.instances.get(domain);
-  }
-
-  public getAllInstances(): Map<string, APIBaseIntegration> {
-    if (this.isLoading) {
-      throw new Error("DynamicInstanceManager is still loading. Try again later.");
-    }
-    return this.instances;
-  }
-
-  public get loading(): boolean {
-    return this.isLoading;
-  }
-}
-
-export const dynamicInstanceManager = new DynamicInstanceManager();
@@ -0,0 +1,26 @@
+import prismaClient from "../../prisma";
+import type { CachedResponse, ResponseCacheStore } from "./base";
+
+/**
+ * Stores the upstream responses of the integrations in the `ResponseCache` table, so identical requests
+ * received by any indexer are only sent once per TTL.
+ */
+export const responseCache: ResponseCacheStore = {
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = await prismaClient.responseCache.findUnique({ where: { key } });
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return { status: entry.status, data: entry.data };
+  },
+
+  async set(key: string, response: CachedResponse, ttl: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttl);
+    await prismaClient.responseCache.upsert({
+      where: { key },
+      create: { key, status: response.status, data: response.data, expiresAt },
+      update: { status: response.status, data: response.data, expiresAt },
+    });
+    await prismaClient.responseCache.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+  },
+};
@@ -0,0 +1,283 @@
+import env, { readIntegrationTokens } from "@/env";
+import { log } from "@/logger";
+import { AuthType } from "@/types";
+import type { SupportedUrl } from "@prisma/client";
+import Joi from "joi";
+import prismaClient from "prisma";
+import { type AuthStrategy, templateSecrets } from "./auth";
+import APIBaseIntegration, { type BasicBearerAPIHandler, type HandlerOptions } from "./base";
+import { responseCache } from "./cache";
+import OAuth1APIHandler, { type OAuth1Credentials } from "./oauth1";
+import OAuth2APIHandler, { type OAuth2Credentials } from "./oauth2";
+import { createAzureInstance, createOpenAIInstance } from "./openAI";
+import { type CompiledRequestPolicy, type OversizedResponse, compileRequestPolicy } from "./policy";
+import { advertises } from "./served";
+import { createXTwitterInstance } from "./xtwitter";
+
+const credentialsSchemas = {
+  [AuthType.BEARER]: Joi.object({
+    token: Joi.string().required(),
+  }),
+  [AuthType.OAUTH1]: Joi.object({
+    consumerKey: Joi.string().required(),
+    consumerSecret: Joi.string().required(),
+    token: Joi.string().optional(),
+    tokenSecret: Joi.string().optional(),
+  }),
+  [AuthType.OAUTH2]: Joi.object({
+    clientId: Joi.string().required(),
+    clientSecret: Joi.string().required(),
+    tokenUrl: Joi.string().uri().required(),
+    scope: Joi.string().optional(),
+    audience: Joi.string().optional(),
+  }),
+  [AuthType.API_KEY]: Joi.object({
+    headers: Joi.object().pattern(Joi.string(), Joi.string()),
+    query: Joi.object().pattern(Joi.string(), Joi.string()),
+    secrets: Joi.object().pattern(Joi.string(), Joi.string()).default({}),
+  })
+    .or("headers", "query")
+    .custom((value: AuthStrategy, helpers) => {
+      const missing = templateSecrets(value).filter((name) => value.secrets?.[name] === undefined);
+      return missing.length > 0 ? helpers.message({ custom: `unknown secrets ${missing.join(", ")}` }) : value;
+    }),
+  [AuthType.BASIC]: Joi.object({
+    username: Joi.string().required(),
+    password: Joi.string().allow("").required(),
+  }),
+};
+
+/**
+ * Instantiates the handler matching the `authType` of a `SupportedUrl` row.
+ *
+ * @param {SupportedUrl} url - The supported URL row.
+ * @param {CompiledRequestPolicy[]} [policies] - The request policies, the handler keeps the ones of its domain.
+ * @returns {APIBaseIntegration} The handler serving this URL.
+ * @throws {Error} If the auth type is unknown, or its credentials are invalid.
+ */
+export const createInstance = (url: SupportedUrl, policies: CompiledRequestPolicy[] = []): APIBaseIntegration => {
+  const authType = url.authType.toUpperCase() as (typeof AuthType)[keyof typeof AuthType];
+  const schema = credentialsSchemas[authType];
+  if (!schema) {
+    throw new Error(`Unsupported auth type ${url.authType}`);
+  }
+
+  const { value: credentials, error } = schema.validate(url.credentials, { allowUnknown: true });
+  if (error) {
+    throw new Error(`Invalid ${authType} credentials: ${error.message}`);
+  }
+
+  const rate = Number(url.requestRate);
+  const options: HandlerOptions = {
+    burst: url.burst,
+    dailyQuota: url.dailyQuota,
+    cacheTtl: url.cacheTtl,
+    cache: responseCache,
+    policies,
+    maxResponseSize: url.maxResponseSize ?? env.integrations.maxResponseSize,
+  };
+  switch (authType) {
+    case AuthType.OAUTH1:
+      return new OAuth1APIHandler(credentials as OAuth1Credentials, [url.domain], url.supported_path, rate, options);
+    case AuthType.OAUTH2:
+      return new OAuth2APIHandler(credentials as OAuth2Credentials, [url.domain], url.supported_path, rate, options);
+    case AuthType.API_KEY: {
+      const { headers, query, secrets } = credentials as AuthStrategy;
+      return new APIBaseIntegration("", [url.domain], url.supported_path, rate, {
+        ...options,
+        auth: { headers, query, secrets },
+      });
+    }
+    case AuthType.BASIC:
+      return new APIBaseIntegration("", [url.domain], url.supported_path, rate, {
+        ...options,
+        auth: {
+          basic: { username: "{{username}}", password: "{{password}}" },
+          secrets: { username: credentials.username, password: credentials.password },
+        },
+      });
+    default:
+      return new APIBaseIntegration(credentials.token, [url.domain], url.supported_path, rate, options);
+  }
+};
+
+export interface BuiltinInstances {
+  xTwitter: BasicBearerAPIHandler;
+  openAI: BasicBearerAPIHandler;
+  azure: BasicBearerAPIHandler;
+}
+
+const createBuiltins = (
+  tokens: {
+    xBearerToken: string;
+    openAIToken: string;
+    azureToken: string;
+  },
+  policies: CompiledRequestPolicy[] = [],
+): BuiltinInstances => ({
+  xTwitter: createXTwitterInstance(tokens.xBearerToken, {
+    cacheTtl: env.integrations.xCacheTtl,
+    cache: responseCache,
+    policies,
+    maxResponseSize: env.integrations.maxResponseSize,
+  }),
+  openAI: createOpenAIInstance(tokens.openAIToken, { policies, maxResponseSize: env.integrations.maxResponseSize }),
+  azure: createAzureInstance(tokens.azureToken, { policies, maxResponseSize: env.integrations.maxResponseSize }),
+});
+
+const loadPolicies = async (): Promise<CompiledRequestPolicy[]> => {
+  const policies: CompiledRequestPolicy[] = [];
+  for (const policy of await prismaClient.requestPolicy.findMany()) {
+    try {
+      policies.push(
+        compileRequestPolicy({
+          ...policy,
+          bodySchema: policy.bodySchema as object | null,
+          oversizedResponse: policy.oversizedResponse as OversizedResponse,
+        }),
+      );
+    } catch (err: any) {
+      log.error(`Skipping request policy ${policy.domain}${policy.path}`, { err: err.message });
+    }
+  }
+  return policies;
+};
+
+export class DynamicInstanceManager {
+  private instances: Map<string, APIBaseIntegration> = new Map();
+  private builtins: BuiltinInstances = createBuiltins(env.integrations);
+  // URL prefixes advertised in the registry by host, restricting the requests of its chains. Kept across reloads.
+  private registry: { chains: string[]; advertised: Map<string, string[]> } | null = null;
+  private policies: CompiledRequestPolicy[] = [];
+  private isLoading = true;
+  private pendingReload: Promise<void> | null = null;
+  private reloadListeners: (() => Promise<void>)[] = [];
+
+  constructor() {
+    this.initialize();
+  }
+
+  public async initialize() {
+    try {
+      await this.reload();
+    } catch (err: any) {
+      log.error("Unable to load the supported URLs", { err: err.message });
+    }
+  }
+
+  /**
+   * Rebuilds every handler from the `SupportedUrl` table and the built-in integration tokens.
+   *
+   * The new handlers replace the current ones at once. Requests in flight keep the handler they were
+   * dispatched to, and the current handlers stay in place when the reload fails.
+   */
+  public reload(): Promise<void> {
+    // Share a single reload between concurrent triggers
+    this.pendingReload ??= this.load().finally(() => {
+      this.pendingReload = null;
+    });
+    return this.pendingReload;
+  }
+
+  /**
+   * Registers a task to run after every successful reload.
+   *
+   * @param {() => Promise<void>} listener - The task to run.
+   */
+  public onReload(listener: () => Promise<void>) {
+    this.reloadListeners.push(listener);
+  }
+
+  private async load() {
+    const policies = await loadPolicies();
+    const builtins = createBuiltins(readIntegrationTokens(), policies);
+    const supportedUrls = await prismaClient.supportedUrl.findMany();
+
+    const instances = new Map<string, APIBaseIntegration>();
+    for (const url of supportedUrls) {
+      try {
+        instances.set(url.domain, createInstance(url, policies));
+      } catch (err: any) {
+        log.error(`Skipping supported URL ${url.domain}`, { err: err.message });
+      }
+    }
+
+    this.builtins = builtins;
+    this.instances = instances;
+    this.policies = policies;
+    this.isLoading = false;
+    log.info(`Loaded ${instances.size} supported URLs`);
+
+    for (const listener of this.reloadListeners) {
+      await listener();
+    }
+  }
+
+  /**
+   * Selects the handler serving a URL, built-in integrations first.
+   *
+   * @param {URL} url - The URL of the request.
+   * @param {string} [chain] - The chain of the request, whose registry may restrict the URLs served.
+   * @returns {BasicBearerAPIHandler | null} The handler, or null when the URL is not supported.
+   */
+  public selectHandler(url: URL, chain?: string): BasicBearerAPIHandler | null {
+    if (chain && this.registry?.chains.includes(chain) && !advertises(this.registry.advertised, url)) {
+      return null;
+    }
+    const builtin = Object.values(this.builtins).find((handler) => handler.isApprovedPath(url));
+    if (builtin) {
+      return builtin;
+    }
+    if (!this.isLoading) {
+      return this.instances.get(url.host) || null;
+    }
+    return null;
+  }
+
+  // Request policies loaded with the handlers, for the handlers rebuilt in between reloads
+  public getPolicies(): CompiledRequestPolicy[] {
+    return this.policies;
+  }
+
+  public getBuiltins(): BuiltinInstances {
+    return this.builtins;
+  }
+
+  /**
+   * Restricts the requests of chains to the URL prefixes advertised in their registry.
+   *
+   * @param {string[]} chains - The chains of the registry, e.g. ROOCH-testnet.
+   * @param {Map<string, string[]>} advertised - Paths of the advertised URL prefixes, by host.
+   */
+  public restrictToRegistry(chains: string[], advertised: Map<string, string[]>) {
+    this.registry = { chains, advertised };
+  }
+
+  public getInstance(domain: string): APIBaseIntegration | undefined {
+    if (this.isLoading) {
+      throw new Error("DynamicInstanceManager is still loading. Try again later.");
+    }
+    return this.instances.get(domain);
+  }
+
+  public getAllInstances(): Map<string, APIBaseIntegration> {
+    if (this.isLoading) {
+      throw new Error("DynamicInstanceManager is still loading. Try again later.");
+    }
+    return this.instances;
+  }
+
+  public setInstance(domain: string, instance: APIBaseIntegration) {
+    this.instances.set(domain, instance);
+  }
+
+  public removeInstance(domain: string): boolean {
+    return this.instances.delete(domain);
+  }
+
+  public get loading(): boolean {
+    return this.isLoading;
+  }
+}
+
+export const dynamicInstanceManager = new DynamicInstanceManager();
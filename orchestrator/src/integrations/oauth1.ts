@@ -0,0 +1,83 @@
+import { createHmac, randomBytes } from "node:crypto";
+import APIBaseIntegration, { type AuthorizableRequest, type HandlerOptions } from "./base";
+
+export interface OAuth1Credentials {
+  consumerKey: string;
+  consumerSecret: string;
+  token?: string;
+  tokenSecret?: string;
+}
+
+// RFC 3986 percent encoding, as required by the OAuth 1.0a signature base string
+const percentEncode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Signs requests with OAuth 1.0a (HMAC-SHA1), as used by e.g. the X v1.1 user context endpoints.
+ */
+export default class OAuth1APIHandler extends APIBaseIntegration {
+  constructor(
+    protected credentials: OAuth1Credentials,
+    supported_host: string[],
+    supported_paths: string[],
+    rate: number,
+    options: HandlerOptions = {},
+  ) {
+    super("", supported_host, supported_paths, rate, options);
+  }
+
+  /**
+   * Computes the OAuth 1.0a `Authorization` header of a request.
+   *
+   * Only the query parameters are part of the signature: JSON bodies are not signed by OAuth 1.0a.
+   *
+   * @param {string} method - The HTTP method of the request.
+   * @param {string} url - The full URL of the request, including its query string.
+   * @param {string} nonce - A unique value for this request.
+   * @param {number} timestamp - The current time, in seconds since epoch.
+   * @returns {string} The value of the `Authorization` header.
+   */
+  sign(method: string, url: string, nonce: string, timestamp: number): string {
+    const url_object = new URL(url);
+    const oauthParams: Record<string, string> = {
+      oauth_consumer_key: this.credentials.consumerKey,
+      oauth_nonce: nonce,
+      oauth_signature_method: "HMAC-SHA1",
+      oauth_timestamp: timestamp.toString(),
+      oauth_version: "1.0",
+    };
+    if (this.credentials.token) {
+      oauthParams.oauth_token = this.credentials.token;
+    }
+
+    const params = [...Object.entries(oauthParams), ...url_object.searchParams.entries()]
+      .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+      .sort(([keyA, valueA], [keyB, valueB]) => (keyA === keyB ? valueA.localeCompare(valueB) : keyA < keyB ? -1 : 1))
+      .map(([key, value]) => `${key}=${value}`)
+      .join("&");
+
+    const baseUrl = `${url_object.protocol}//${url_object.host.toLowerCase()}${url_object.pathname}`;
+    const signatureBase = [method.toUpperCase(), percentEncode(baseUrl), percentEncode(params)].join("&");
+    const signingKey = `${percentEncode(this.credentials.consumerSecret)}&${percentEncode(this.credentials.tokenSecret ?? "")}`;
+    const signature = createHmac("sha1", signingKey).update(signatureBase).digest("base64");
+
+    return `OAuth ${Object.entries({ ...oauthParams, oauth_signature: signature })
+      .map(([key, value]) => `${percentEncode(key)}="${percentEncode(value)}"`)
+      .join(", ")}`;
+  }
+
+  protected async authorize(request: AuthorizableRequest): Promise<AuthorizableRequest> {
+    return {
+      ...request,
+      headers: {
+        ...request.headers,
+        Authorization: this.sign(
+          request.method,
+          request.url,
+          randomBytes(16).toString("hex"),
+          Math.floor(Date.now() / 1000),
+        ),
+      },
+    };
+  }
+}
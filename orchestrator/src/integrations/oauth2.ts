@@ -0,0 +1,96 @@
+import { log } from "@/logger";
+import axios, { type AxiosResponse } from "axios";
+import { AuthorizationError, applyAuthStrategy } from "./auth";
+import APIBaseIntegration, { type AuthorizableRequest, type HandlerOptions } from "./base";
+
+export interface OAuth2Credentials {
+  clientId: string;
+  clientSecret: string;
+  tokenUrl: string;
+  scope?: string;
+  audience?: string;
+}
+
+// Renew tokens slightly before they expire, so in-flight requests do not race the expiry
+const EXPIRY_MARGIN = 60 * 1000;
+
+/**
+ * Authenticates requests with an access token obtained through the OAuth 2.0 client credentials grant.
+ * The token is cached until it expires, or until the upstream rejects it.
+ */
+export default class OAuth2APIHandler extends APIBaseIntegration {
+  private token: { value: string; expiresAt: number } | null = null;
+  private pendingToken: Promise<string> | null = null;
+
+  constructor(
+    protected credentials: OAuth2Credentials,
+    supported_host: string[],
+    supported_paths: string[],
+    rate: number,
+    options: HandlerOptions = {},
+  ) {
+    super("", supported_host, supported_paths, rate, options);
+  }
+
+  getAccessToken(): string | null {
+    if (!this.token || Date.now() >= this.token.expiresAt) {
+      return null;
+    }
+    return this.token.value;
+  }
+
+  protected invalidateCredentials(): void {
+    this.token = null;
+  }
+
+  /**
+   * Fetches a new access token from the token endpoint.
+   *
+   * @returns {Promise<string>} The new access token.
+   * @throws {AuthorizationError} If the token endpoint does not return an access token.
+   */
+  async fetchAccessToken(): Promise<string> {
+    const body = new URLSearchParams({ grant_type: "client_credentials" });
+    if (this.credentials.scope) {
+      body.set("scope", this.credentials.scope);
+    }
+    if (this.credentials.audience) {
+      body.set("audience", this.credentials.audience);
+    }
+
+    let response: AxiosResponse<any, any>;
+    try {
+      response = await axios.post(this.credentials.tokenUrl, body.toString(), {
+        auth: { username: this.credentials.clientId, password: this.credentials.clientSecret },
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      });
+    } catch (err: any) {
+      const reason = err?.response ? `${this.credentials.tokenUrl} responded with ${err.response.status}` : err.message;
+      throw new AuthorizationError(this.hosts, reason);
+    }
+
+    const { access_token, expires_in } = response.data ?? {};
+    if (!access_token) {
+      throw new AuthorizationError(this.hosts, `No access token returned by ${this.credentials.tokenUrl}`);
+    }
+
+    // Tokens without an expiry are renewed when the upstream rejects them
+    const lifetime = expires_in ? Number(expires_in) * 1000 - EXPIRY_MARGIN : Number.POSITIVE_INFINITY;
+    this.token = { value: access_token, expiresAt: Date.now() + lifetime };
+    log.debug({ message: `Fetched OAuth2 access token for ${this.hosts}`, expires_in });
+    return access_token;
+  }
+
+  protected async authorize(request: AuthorizableRequest): Promise<AuthorizableRequest> {
+    let token = this.getAccessToken();
+    if (!token) {
+      // Share a single token request between concurrent requests
+      this.pendingToken ??= this.fetchAccessToken().finally(() => {
+        this.pendingToken = null;
+      });
+      token = await this.pendingToken;
+    }
+
+    return applyAuthStrategy(request, this.auth, token);
+  }
+}
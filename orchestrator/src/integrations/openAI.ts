@@ -1,7 +1,6 @@
-import env from "@/env";
 import { log } from "@/logger";
 import Joi from "joi";
-import { BasicBearerAPIHandler } from "./base";
+import { BasicBearerAPIHandler, type HandlerOptions } from "./base";
 
 const chatSchema = Joi.object({
   model: Joi.string().optional().allow(null, ""),
@@ -28,8 +27,9 @@ export default class AIIntegration extends BasicBearerAPIHandler {
         return true;
       }
 
-      // OPENAI CHECK AND MODEL RESTRICTIONS
-      if (path === "/v1/chat/completions" && value.model === "gpt-4o") {
+      // OPENAI CHECK AND MODEL RESTRICTIONS, the models listed by a request policy are already checked
+      const allowedByPolicy = (this.getPolicy(path)?.models.length ?? 0) > 0;
+      if (path === "/v1/chat/completions" && (allowedByPolicy || value.model === "gpt-4o")) {
         return true;
       }
       return false;
@@ -40,16 +40,12 @@ export default class AIIntegration extends BasicBearerAPIHandler {
   }
 }
 
-export const openAIInstance = new AIIntegration(
-  env.integrations.openAIToken,
-  ["api.openai.com"],
-  ["/v1/chat/completions"],
-  60 * 1000,
-);
+export const createOpenAIInstance = (token: string, options: HandlerOptions = {}) =>
+  new AIIntegration(token, ["api.openai.com"], ["/v1/chat/completions"], 60 * 1000, options);
 
-export const azureInstance = new AIIntegration(
-  env.integrations.azureToken,
-  ["ai-oki6300ai905488739395.openai.azure.com"],
-  ["/openai/deployments/"],
-  60 * 1000,
-);
+// Azure OpenAI key authentication expects the key in an `api-key` header, not a Bearer token
+export const createAzureInstance = (token: string, options: HandlerOptions = {}) =>
+  new AIIntegration(token, ["ai-oki6300ai905488739395.openai.azure.com"], ["/openai/deployments/"], 60 * 1000, {
+    ...options,
+    auth: { headers: { "api-key": "{{token}}" } },
+  });
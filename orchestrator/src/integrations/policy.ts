@@ -0,0 +1,197 @@
+import { createHash } from "node:crypto";
+import Ajv, { type ValidateFunction } from "ajv";
+
+// How responses over the size limit are fulfilled: with an error status, cut at the limit, or as their SHA-256
+export const OversizedResponseList = ["reject", "truncate", "hash"] as const;
+export type OversizedResponse = (typeof OversizedResponseList)[number];
+
+/**
+ * Restrictions on the requests sent to the paths of a handler, stored in the `RequestPolicy` table.
+ */
+export interface RequestPolicy {
+  // Host the policy applies to, e.g. api.openai.com
+  domain: string;
+  // Path prefix the policy applies to, the longest matching prefix wins
+  path: string;
+  // Allowed HTTP methods, any when empty
+  methods: string[];
+  // Headers requesters may set, any when empty
+  allowedHeaders: string[];
+  // Headers removed before the request is sent upstream
+  strippedHeaders: string[];
+  // JSON Schema the body must match
+  bodySchema: object | null;
+  // Allowed values of the `model` field of the body, any when empty
+  models: string[];
+  // Maximum size of the body in bytes, unlimited when null
+  maxBodySize: number | null;
+  // Maximum size in bytes of the result submitted on-chain, the limit of the handler applies when null
+  maxResponseSize: number | null;
+  oversizedResponse: OversizedResponse;
+}
+
+export interface CompiledRequestPolicy extends RequestPolicy {
+  validateBody: ValidateFunction | null;
+}
+
+export interface PolicyRejection {
+  status: number;
+  message: string;
+}
+
+// Requesters can never set these, the credentials of the handler are added after the policy is applied
+export const ALWAYS_STRIPPED_HEADERS = ["authorization", "proxy-authorization", "cookie", "host"];
+
+// Status of rejected oversized results, distinct from the 413 of request bodies over `maxBodySize`
+export const RESPONSE_TOO_LARGE_STATUS = 507;
+
+const ajv = new Ajv({ allErrors: true });
+
+/**
+ * Prepares a policy, compiling its body schema.
+ *
+ * @param {RequestPolicy} policy - The policy.
+ * @returns {CompiledRequestPolicy} The policy, ready to check requests.
+ * @throws {Error} If the body schema is not a valid JSON Schema, or the oversized response handling is unknown.
+ */
+export const compileRequestPolicy = (policy: RequestPolicy): CompiledRequestPolicy => {
+  if (!OversizedResponseList.includes(policy.oversizedResponse)) {
+    throw new Error(`Unknown oversized response handling ${policy.oversizedResponse}`);
+  }
+  return {
+    ...policy,
+    domain: policy.domain.toLowerCase(),
+    methods: policy.methods.map((method) => method.toUpperCase()),
+    allowedHeaders: policy.allowedHeaders.map((header) => header.toLowerCase()),
+    strippedHeaders: policy.strippedHeaders.map((header) => header.toLowerCase()),
+    validateBody: policy.bodySchema ? ajv.compile(policy.bodySchema) : null,
+  };
+};
+
+/**
+ * Selects the policy of a path.
+ *
+ * @param {CompiledRequestPolicy[]} policies - The policies of a handler.
+ * @param {string} pathname - The path of the request.
+ * @returns {CompiledRequestPolicy | null} The policy with the longest matching path prefix, or null when none applies.
+ */
+export const selectRequestPolicy = (
+  policies: CompiledRequestPolicy[],
+  pathname: string,
+): CompiledRequestPolicy | null =>
+  policies
+    .filter((policy) => pathname.toLowerCase().startsWith(policy.path.toLowerCase()))
+    .reduce<CompiledRequestPolicy | null>(
+      (selected, policy) => (!selected || policy.path.length > selected.path.length ? policy : selected),
+      null,
+    );
+
+/**
+ * Removes the headers requesters may not set.
+ *
+ * @param {Record<string, string>} headers - The headers of the request.
+ * @param {CompiledRequestPolicy | null} policy - The policy of the request.
+ * @returns {Record<string, string>} The headers to send upstream.
+ */
+export const stripHeaders = (
+  headers: Record<string, string>,
+  policy: CompiledRequestPolicy | null,
+): Record<string, string> => {
+  const stripped = [...ALWAYS_STRIPPED_HEADERS, ...(policy?.strippedHeaders ?? [])];
+  return Object.fromEntries(Object.entries(headers).filter(([name]) => !stripped.includes(name.toLowerCase())));
+};
+
+/**
+ * Checks a request against a policy.
+ *
+ * @param {CompiledRequestPolicy} policy - The policy of the request.
+ * @param {{method: string, headers: Record<string, string>, body: string | null}} request - The request, headers already stripped.
+ * @returns {PolicyRejection | null} The status and reason the request is rejected with, or null when it is allowed.
+ */
+export const checkRequestPolicy = (
+  policy: CompiledRequestPolicy,
+  { method, headers, body }: { method: string; headers: Record<string, string>; body: string | null },
+): PolicyRejection | null => {
+  if (policy.methods.length > 0 && !policy.methods.includes(method.toUpperCase())) {
+    return { status: 405, message: `Method ${method} is not allowed` };
+  }
+
+  const forbidden = Object.keys(headers).filter(
+    (name) => policy.allowedHeaders.length > 0 && !policy.allowedHeaders.includes(name.toLowerCase()),
+  );
+  if (forbidden.length > 0) {
+    return { status: 403, message: `Headers ${forbidden.join(", ")} are not allowed` };
+  }
+
+  if (policy.maxBodySize !== null && Buffer.byteLength(body ?? "") > policy.maxBodySize) {
+    return { status: 413, message: `Body exceeds ${policy.maxBodySize} bytes` };
+  }
+
+  if (!policy.validateBody && policy.models.length === 0) {
+    return null;
+  }
+  let payload: any;
+  try {
+    payload = body ? JSON.parse(body) : null;
+  } catch {
+    return { status: 422, message: "Body is not valid JSON" };
+  }
+  if (policy.validateBody && !policy.validateBody(payload)) {
+    return { status: 422, message: `Invalid body: ${ajv.errorsText(policy.validateBody.errors)}` };
+  }
+  if (policy.models.length > 0 && !policy.models.includes(payload?.model)) {
+    return { status: 403, message: `Model ${payload?.model} is not allowed` };
+  }
+  return null;
+};
+
+// The result is submitted JSON encoded, and `cost_per_response_token` prices its length
+const onChainSize = (message: string) => Buffer.byteLength(JSON.stringify(message));
+
+// Longest prefix of the message fitting the limit once JSON encoded, without splitting characters
+const truncate = (message: string, maxSize: number) => {
+  const chars = Array.from(message);
+  let [low, high] = [0, chars.length];
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (onChainSize(chars.slice(0, middle).join("")) <= maxSize) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return chars.slice(0, low).join("");
+};
+
+/**
+ * Applies the size limit to the picked result of a response, as submitted on-chain.
+ *
+ * @param {{status: number, message: string}} response - The status of the response and its picked result.
+ * @param {number} maxSize - Maximum size in bytes of the JSON encoded result, unlimited when 0.
+ * @param {OversizedResponse} handling - How a result over the limit is fulfilled.
+ * @returns {{status: number, message: string}} The response, rejected with status 507, truncated or hashed when over the limit.
+ */
+export const limitResponseSize = (
+  response: { status: number; message: string },
+  maxSize: number,
+  handling: OversizedResponse,
+): { status: number; message: string } => {
+  const size = onChainSize(response.message);
+  if (maxSize <= 0 || size <= maxSize) {
+    return response;
+  }
+  switch (handling) {
+    case "truncate":
+      return { status: response.status, message: truncate(response.message, maxSize) };
+    case "hash":
+      return {
+        status: response.status,
+        message: `sha256:${createHash("sha256").update(response.message).digest("hex")}`,
+      };
+    default:
+      return {
+        status: RESPONSE_TOO_LARGE_STATUS,
+        message: `Response of ${size} bytes exceeds the limit of ${maxSize} bytes`,
+      };
+  }
+};
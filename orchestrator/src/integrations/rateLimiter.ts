@@ -0,0 +1,173 @@
+import { rateLimitWait } from "@/metrics";
+
+export interface RateLimitOptions {
+  // Minimum delay in ms between two requests once the burst is spent, i.e. the refill period of a token
+  rate: number;
+  // Number of requests that can be sent at once
+  burst?: number;
+  // Maximum number of requests per UTC day
+  dailyQuota?: number | null;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(
+    public key: string,
+    public resetAt: number,
+  ) {
+    super(`Daily quota of ${key} is exhausted until ${new Date(resetAt).toISOString()}`);
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const startOfDay = (now: number) => now - (now % DAY);
+
+// Durations such as `1m30s` or `250ms`, as returned by OpenAI in `x-ratelimit-reset-requests`
+const parseDuration = (value: string): number | null => {
+  const parts = Array.from(value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g));
+  if (parts.length === 0) {
+    return null;
+  }
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+};
+
+/**
+ * Token bucket throttling the requests sent to an upstream.
+ *
+ * Requests reserve a token synchronously and wait for their turn, so concurrent callers are queued in
+ * order instead of racing for the same slot.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+  private day = 0;
+  private usedToday = 0;
+
+  constructor(
+    public readonly key: string,
+    private options: RateLimitOptions,
+    now = Date.now(),
+  ) {
+    this.tokens = this.burst;
+    this.lastRefill = now;
+  }
+
+  private get burst() {
+    return Math.max(1, this.options.burst ?? 1);
+  }
+
+  /**
+   * Applies new limits, e.g. after the handlers are reloaded, keeping the requests already accounted for.
+   *
+   * @param {RateLimitOptions} options - The new limits.
+   */
+  configure(options: RateLimitOptions) {
+    this.options = options;
+    this.tokens = Math.min(this.tokens, this.burst);
+  }
+
+  private refill(now: number) {
+    if (this.options.rate <= 0) {
+      this.tokens = this.burst;
+    } else {
+      this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) / this.options.rate);
+    }
+    this.lastRefill = now;
+
+    if (startOfDay(now) !== this.day) {
+      this.day = startOfDay(now);
+      this.usedToday = 0;
+    }
+  }
+
+  /**
+   * Reserves a request.
+   *
+   * @param {number} [now] - The current time, in ms since epoch.
+   * @returns {number} The delay in ms before the request can be sent.
+   * @throws {QuotaExceededError} If the daily quota is exhausted.
+   */
+  reserve(now = Date.now()): number {
+    // Requests held back by the upstream are queued from the end of the block, still consuming the bucket
+    const start = Math.max(now, this.blockedUntil);
+    this.refill(start);
+
+    const { dailyQuota } = this.options;
+    if (dailyQuota && this.usedToday >= dailyQuota) {
+      throw new QuotaExceededError(this.key, this.day + DAY);
+    }
+    this.usedToday++;
+
+    // A negative balance is the number of requests already waiting for a token
+    this.tokens -= 1;
+    const delay = this.tokens < 0 ? -this.tokens * this.options.rate : 0;
+    return start - now + delay;
+  }
+
+  /**
+   * Waits until a request can be sent.
+   *
+   * @throws {QuotaExceededError} If the daily quota is exhausted.
+   */
+  async acquire(): Promise<void> {
+    const delay = this.reserve();
+    rateLimitWait.observe({ limiter: this.key }, delay / 1000);
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Holds back requests according to the rate limit headers of an upstream response.
+   *
+   * Supports `retry-after`, X's `x-rate-limit-remaining`/`x-rate-limit-reset` and OpenAI's
+   * `x-ratelimit-remaining-requests`/`x-ratelimit-reset-requests`.
+   *
+   * @param {Record<string, any>} headers - The headers of the response, with lower case names.
+   * @param {number} [now] - The current time, in ms since epoch.
+   */
+  observe(headers: Record<string, any>, now = Date.now()) {
+    let until: number | null = null;
+
+    const retryAfter = headers["retry-after"];
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      until = Number.isNaN(seconds) ? Date.parse(retryAfter) : now + seconds * 1000;
+    } else if (Number(headers["x-rate-limit-remaining"]) === 0 && headers["x-rate-limit-reset"] !== undefined) {
+      until = Number(headers["x-rate-limit-reset"]) * 1000;
+    } else if (
+      Number(headers["x-ratelimit-remaining-requests"]) === 0 &&
+      headers["x-ratelimit-reset-requests"] !== undefined
+    ) {
+      const delay = parseDuration(String(headers["x-ratelimit-reset-requests"]));
+      until = delay === null ? null : now + delay;
+    }
+
+    if (until !== null && !Number.isNaN(until)) {
+      this.blockedUntil = Math.max(this.blockedUntil, until);
+    }
+  }
+}
+
+// Buckets are keyed by upstream, so handlers rebuilt on reload and every indexer share the same limits
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * Returns the token bucket of an upstream, creating it on first use.
+ *
+ * @param {string} key - Identifies the upstream, e.g. its hosts.
+ * @param {RateLimitOptions} options - The limits of the upstream.
+ * @returns {TokenBucket} The bucket shared by every handler of the upstream.
+ */
+export const getRateLimiter = (key: string, options: RateLimitOptions): TokenBucket => {
+  let bucket = buckets.get(key);
+  if (bucket) {
+    bucket.configure(options);
+  } else {
+    bucket = new TokenBucket(key, options);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+};
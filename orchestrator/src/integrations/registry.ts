@@ -0,0 +1,91 @@
+import { log } from "@/logger";
+import prismaClient from "../../prisma";
+import { type DynamicInstanceManager, createInstance, dynamicInstanceManager } from "./manager";
+import { servedPaths } from "./served";
+
+export interface SupportedUrlSource {
+  getChainId(): string;
+  fetchSupportedUrls(): Promise<string[]>;
+}
+
+const parsePrefix = (prefix: string) => {
+  const url_object = new URL(prefix.includes("http") ? prefix : `https://${prefix}`);
+  return { host: url_object.hostname.toLowerCase(), path: url_object.pathname.toLowerCase() };
+};
+
+/**
+ * Keeps the handlers of the DynamicInstanceManager in line with the URLs advertised by this orchestrator
+ * in the on-chain `registry` module.
+ *
+ * Requests of the registry chains are only served for URLs advertised on-chain, whether their handler is a
+ * `SupportedUrl` row, which holds its credentials, or a built-in integration. Handlers are shared with the
+ * other chains, so they are left untouched and the restriction only applies to the registry chains.
+ * URLs advertised on-chain without credentials are reported.
+ */
+export class RegistryReconciler {
+  constructor(
+    private sources: SupportedUrlSource[],
+    private manager: DynamicInstanceManager = dynamicInstanceManager,
+  ) {}
+
+  async reconcile() {
+    if (this.manager.loading) {
+      return;
+    }
+
+    // Handlers are shared by every registry chain, so serve the union of the URLs advertised on each of them
+    const advertised = new Map<string, string[]>();
+    for (const source of this.sources) {
+      const prefixes = await source.fetchSupportedUrls();
+      log.debug({ message: `Registry of ${source.getChainId()} advertises ${prefixes.length} URLs`, prefixes });
+      for (const prefix of prefixes) {
+        try {
+          const { host, path } = parsePrefix(prefix);
+          advertised.set(host, [...(advertised.get(host) ?? []), path]);
+        } catch {
+          log.warn(`Ignoring invalid URL prefix advertised in the registry: ${prefix}`);
+        }
+      }
+    }
+
+    const supportedUrls = await prismaClient.supportedUrl.findMany();
+    const configured = new Set(supportedUrls.map((url) => url.domain.toLowerCase()));
+
+    // Handlers of hosts added to the table since the last reload
+    for (const url of supportedUrls) {
+      if (this.manager.getAllInstances().has(url.domain)) {
+        continue;
+      }
+      try {
+        this.manager.setInstance(url.domain, createInstance(url, this.manager.getPolicies()));
+        log.info(`Serving ${url.domain}: added to the supported URLs`);
+      } catch (err: any) {
+        log.error(`Skipping supported URL ${url.domain}`, { err: err.message });
+      }
+    }
+
+    // Handlers of hosts removed from the table since the last reconciliation
+    for (const domain of this.manager.getAllInstances().keys()) {
+      if (!configured.has(domain.toLowerCase())) {
+        this.manager.removeInstance(domain);
+        log.info(`Stopped serving ${domain}: removed from the supported URLs`);
+      }
+    }
+
+    const chains = this.sources.map((source) => source.getChainId());
+    const handlers = [...Object.values(this.manager.getBuiltins()), ...this.manager.getAllInstances().values()];
+    for (const handler of handlers) {
+      for (const host of handler.hosts) {
+        const paths = servedPaths(handler.paths, advertised.get(host.toLowerCase()) ?? []);
+        log.debug(`${chains.join(", ")} requests to ${host} served on ${paths.join(", ") || "no path"}`);
+      }
+    }
+    this.manager.restrictToRegistry(chains, advertised);
+
+    for (const [host, paths] of advertised) {
+      if (!handlers.some((handler) => handler.hosts.some((served: string) => served.toLowerCase() === host))) {
+        log.warn(`Registry advertises ${paths.join(", ")} on ${host}, which is not served by this orchestrator`);
+      }
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Restricts the paths configured for a host to the ones advertised on-chain.
+ * When a configured path and an advertised path overlap, the narrower of the two is served.
+ *
+ * @param {string[]} configuredPaths - Paths of the `SupportedUrl` row or built-in integration.
+ * @param {string[]} advertisedPaths - Paths of the URL prefixes advertised in the registry for the same host.
+ * @returns {string[]} The paths to serve.
+ */
+export const servedPaths = (configuredPaths: string[], advertisedPaths: string[]): string[] => {
+  const paths = new Set<string>();
+  for (const configured of configuredPaths.map((path) => path.toLowerCase())) {
+    for (const advertised of advertisedPaths) {
+      if (advertised.startsWith(configured)) {
+        paths.add(advertised);
+      } else if (configured.startsWith(advertised)) {
+        paths.add(configured);
+      }
+    }
+  }
+  return Array.from(paths).sort();
+};
+
+/**
+ * Checks whether one of the served paths is a prefix of the path of a URL.
+ *
+ * @param {string[]} paths - The served paths.
+ * @param {URL} url - The URL of the request.
+ * @returns {boolean} Whether the URL is served.
+ */
+export const servesPath = (paths: string[], url: URL): boolean =>
+  paths.some((path) => url.pathname.toLowerCase().startsWith(path));
+
+/**
+ * Checks whether a URL is covered by the URL prefixes advertised in the registry.
+ *
+ * @param {Map<string, string[]>} advertised - Paths of the advertised URL prefixes, by host.
+ * @param {URL} url - The URL of the request.
+ * @returns {boolean} Whether the URL is advertised.
+ */
+export const advertises = (advertised: Map<string, string[]>, url: URL): boolean =>
+  servesPath(advertised.get(url.hostname.toLowerCase()) ?? [], url);
@@ -1,9 +1,4 @@
-import env from "@/env";
-import APIBaseIntegration from "@/integrations/base";
+import APIBaseIntegration, { type HandlerOptions } from "@/integrations/base";
 
-export const xTwitterInstance = new APIBaseIntegration(
-  env.integrations.xBearerToken,
-  ["api.x.com", "api.twitter.com"],
-  ["/2/tweets", "/2/users/"],
-  60 * 1000,
-);
+export const createXTwitterInstance = (token: string, options: HandlerOptions = {}) =>
+  new APIBaseIntegration(token, ["api.x.com", "api.twitter.com"], ["/2/tweets", "/2/users/"], 60 * 1000, options);
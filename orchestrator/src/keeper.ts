@@ -0,0 +1,78 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+// Encrypted secrets are stored as `enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>`, with base64 encoded parts
+const PREFIX = "enc:v1";
+
+const parseMasterKey = (masterKey: string): Buffer => {
+  const hex = masterKey.startsWith("0x") ? masterKey.slice(2) : masterKey;
+  const key = /^[a-fA-F0-9]{64}$/.test(hex) ? Buffer.from(hex, "hex") : Buffer.from(masterKey, "base64");
+  if (key.length !== 32) {
+    throw new Error("The keeper master key must be 32 bytes, hex or base64 encoded");
+  }
+  return key;
+};
+
+/**
+ * Identifies a master key without revealing it, so a secret can be matched with the key that encrypted it.
+ *
+ * @param {string} masterKey - Hex or base64 encoded 32 bytes key.
+ * @returns {string} The first 8 hex characters of the SHA-256 of the key.
+ */
+export const getMasterKeyId = (masterKey: string): string =>
+  createHash("sha256").update(parseMasterKey(masterKey)).digest("hex").slice(0, 8);
+
+/**
+ * Whether a stored secret is encrypted, rows written before encryption was enabled hold the plain secret.
+ *
+ * @param {string} value - The stored secret.
+ * @returns {boolean} Whether the secret is encrypted.
+ */
+export const isEncryptedSecret = (value: string): boolean => value.startsWith(`${PREFIX}:`);
+
+/**
+ * Whether a stored secret is encrypted with the given master key, otherwise it needs to be re-encrypted on rotation.
+ *
+ * @param {string} value - The stored secret.
+ * @param {string} masterKey - Hex or base64 encoded 32 bytes key.
+ * @returns {boolean} Whether the secret is encrypted with the master key.
+ */
+export const isEncryptedWith = (value: string, masterKey: string): boolean =>
+  isEncryptedSecret(value) && value.split(":")[2] === getMasterKeyId(masterKey);
+
+/**
+ * Encrypts a secret with AES-256-GCM.
+ *
+ * @param {string} secret - The secret to encrypt.
+ * @param {string} masterKey - Hex or base64 encoded 32 bytes key.
+ * @returns {string} The encrypted secret, to store as is.
+ */
+export const encryptSecret = (secret: string, masterKey: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", parseMasterKey(masterKey), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [PREFIX, getMasterKeyId(masterKey), iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (Buffer.isBuffer(part) ? part.toString("base64") : part))
+    .join(":");
+};
+
+/**
+ * Decrypts a secret encrypted by `encryptSecret`.
+ *
+ * @param {string} value - The stored secret. Plain secrets are returned unchanged.
+ * @param {string[]} masterKeys - The current master key, followed by previous ones still in use.
+ * @returns {string} The secret.
+ * @throws {Error} If none of the master keys encrypted the secret, or the secret was tampered with.
+ */
+export const decryptSecret = (value: string, masterKeys: string[]): string => {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+  const [keyId, iv, tag, ciphertext] = value.slice(PREFIX.length + 1).split(":");
+  const masterKey = masterKeys.find((key) => key && getMasterKeyId(key) === keyId);
+  if (!masterKey) {
+    throw new Error(`Secret encrypted with the unknown master key ${keyId}`);
+  }
+  const decipher = createDecipheriv("aes-256-gcm", parseMasterKey(masterKey), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+};
@@ -0,0 +1,60 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+// Metrics of this process, exposed in the Prometheus text format on `GET /metrics` of the admin API
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export const eventsFetched = new Counter({
+  name: "verity_events_fetched_total",
+  help: "RequestAdded events fetched by the indexers",
+  labelNames: ["chain"],
+  registers: [registry],
+});
+
+// `outcome` is sent when the transaction is submitted, then succeeded or failed. `status` is the fulfillment status.
+export const fulfillments = new Counter({
+  name: "verity_fulfillments_total",
+  help: "Fulfillment transactions, by outcome and status code",
+  labelNames: ["chain", "outcome", "status"],
+  registers: [registry],
+});
+
+export const fulfillmentGasUsed = new Histogram({
+  name: "verity_fulfillment_gas_used",
+  help: "Gas used by successful fulfillment transactions",
+  labelNames: ["chain"],
+  buckets: [1_000, 10_000, 50_000, 100_000, 500_000, 1_000_000, 5_000_000, 10_000_000],
+  registers: [registry],
+});
+
+// The unit of the lag depends on the chain, e.g. events on Rooch and transaction versions on Aptos
+export const cursorLag = new Gauge({
+  name: "verity_cursor_lag",
+  help: "Distance between the head of the chain and the checkpoint of the indexer",
+  labelNames: ["chain"],
+  registers: [registry],
+});
+
+export const lastSuccessfulRun = new Gauge({
+  name: "verity_indexer_last_success_timestamp_seconds",
+  help: "Time of the latest successful run of the indexer",
+  labelNames: ["chain"],
+  registers: [registry],
+});
+
+// `status` is the HTTP status of the upstream response, or `error` when none was received
+export const upstreamLatency = new Histogram({
+  name: "verity_upstream_request_duration_seconds",
+  help: "Latency of the requests sent to the upstream APIs, by host",
+  labelNames: ["host", "status"],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry],
+});
+
+export const rateLimitWait = new Histogram({
+  name: "verity_rate_limit_wait_seconds",
+  help: "Time requests waited for the rate limiter of their upstream",
+  labelNames: ["limiter"],
+  buckets: [0, 0.1, 0.5, 1, 5, 15, 60, 300],
+  registers: [registry],
+});
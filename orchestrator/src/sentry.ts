@@ -0,0 +1,110 @@
+import * as Sentry from "@sentry/node";
+import { nodeProfilingIntegration } from "@sentry/profiling-node";
+
+// Keys whose values are never sent to Sentry, e.g. `Authorization` or `x-api-key` headers
+const SECRET_KEY = /auth|cookie|token|secret|password|api[-_]?key|private[-_]?key/i;
+// Secret looking query parameters of URLs, e.g. `?api_key=` or `?key=`
+const SECRET_PARAM = /([?&][^=&#]*(?:(?:auth|token|secret|password)[^=&#]*|key)=)[^&#]*/gi;
+const REDACTED = "[Filtered]";
+const MAX_DEPTH = 8;
+
+const definedOnly = (values: Record<string, string | undefined>) =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Record<string, string>;
+
+/**
+ * Redacts the values of secret looking keys, e.g. request headers, and query parameters, at any depth.
+ *
+ * @param {T} value - The data to scrub.
+ * @param {number} [depth] - The depth of the data within the scrubbed object, data nested too deep is redacted.
+ * @returns {T} A copy of the data, with secrets replaced by `[Filtered]`.
+ */
+export const scrubSecrets = <T>(value: T, depth = 0): T => {
+  if (typeof value === "string") {
+    return value.replace(SECRET_PARAM, `$1${REDACTED}`) as T;
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth > MAX_DEPTH) {
+    return REDACTED as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubSecrets(item, depth + 1)) as T;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, SECRET_KEY.test(key) ? REDACTED : scrubSecrets(item, depth + 1)]),
+  ) as T;
+};
+
+/**
+ * Scrubs the secrets of an event before it leaves the process.
+ *
+ * @param {T} event - The error or transaction captured by Sentry.
+ * @returns {T} The scrubbed event.
+ */
+export const scrubEvent = <T extends Sentry.Event>(event: T): T => {
+  event.request = scrubSecrets(event.request);
+  event.extra = scrubSecrets(event.extra);
+  event.contexts = scrubSecrets(event.contexts);
+  event.breadcrumbs = event.breadcrumbs?.map((breadcrumb) => scrubSecrets(breadcrumb));
+  return event;
+};
+
+/**
+ * Initialises Sentry error and performance tracing. Nothing is reported without a DSN.
+ *
+ * @param {{dsn?: string, tracesSampleRate: number, profilesSampleRate: number}} options - The Sentry settings.
+ */
+export const initSentry = ({
+  dsn,
+  tracesSampleRate,
+  profilesSampleRate,
+}: { dsn?: string; tracesSampleRate: number; profilesSampleRate: number }) => {
+  if (!dsn) {
+    return;
+  }
+  Sentry.init({
+    dsn,
+    integrations: profilesSampleRate > 0 ? [nodeProfilingIntegration()] : [],
+    tracesSampleRate,
+    profilesSampleRate,
+    sendDefaultPii: false,
+    beforeSend: scrubEvent,
+    beforeSendTransaction: scrubEvent,
+    beforeBreadcrumb: (breadcrumb) => scrubSecrets(breadcrumb),
+  });
+};
+
+/**
+ * Reports a handled error along with the request it occurred on.
+ *
+ * @param {unknown} err - The error.
+ * @param {Record<string, string | undefined>} tags - Searchable context, e.g. the chain, request_id or handler host.
+ * @param {Record<string, unknown>} [extra] - Additional context, scrubbed of secrets.
+ */
+export const captureError = (
+  err: unknown,
+  tags: Record<string, string | undefined>,
+  extra?: Record<string, unknown>,
+) => {
+  Sentry.captureException(err, {
+    tags: definedOnly(tags),
+    extra: scrubSecrets(extra),
+  });
+};
+
+/**
+ * Runs a task within a Sentry span, a no-op when Sentry is not initialised.
+ *
+ * @param {string} name - The name of the span.
+ * @param {string} op - The kind of operation, e.g. `indexer.run`.
+ * @param {Record<string, string | undefined>} attributes - The chain, request_id or handler host the task runs for.
+ * @param {() => Promise<T>} task - The task.
+ * @returns {Promise<T>} The outcome of the task.
+ */
+export const withSpan = <T>(
+  name: string,
+  op: string,
+  attributes: Record<string, string | undefined>,
+  task: () => Promise<T>,
+): Promise<T> => Sentry.startSpan({ name, op, attributes: definedOnly(attributes) }, task);
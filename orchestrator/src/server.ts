@@ -0,0 +1,163 @@
+import { type IncomingMessage, type ServerResponse, createServer } from "node:http";
+import { getAttestationPublicKey } from "@/attestation";
+import env from "@/env";
+import type { Indexer } from "@/indexer/base";
+import { dynamicInstanceManager } from "@/integrations/manager";
+import { log } from "@/logger";
+import { registry } from "@/metrics";
+import prismaClient from "../prisma";
+
+// Bodies are serialized to JSON, unless a content type is given for a body sent as is
+type RouteResponse = { status: number; body: unknown; contentType?: string };
+type Route = (url: URL) => Promise<RouteResponse>;
+type Method = "GET" | "POST";
+
+const DEFAULT_EVENTS_LIMIT = 50;
+const MAX_EVENTS_LIMIT = 500;
+
+// BigInt columns such as `eventSeq` can not be serialized by JSON.stringify
+const toJson = (body: unknown) =>
+  JSON.stringify(body, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+
+const send = (res: ServerResponse, { status, body, contentType }: RouteResponse) => {
+  res.writeHead(status, { "Content-Type": contentType ?? "application/json" });
+  res.end(contentType ? String(body) : toJson(body));
+};
+
+/**
+ * Builds the read-only routes of the admin API.
+ *
+ * @param {Indexer[]} indexers - The indexers running in this process.
+ * @returns {Record<string, Route>} The routes, keyed by path.
+ */
+export const createRoutes = (indexers: Indexer[]): Record<string, Route> => ({
+  // Liveness: the process is up, along with the outcome of each indexer's latest run
+  "/health": async () => {
+    const statuses = indexers.map((indexer) => indexer.getStatus());
+    return {
+      status: 200,
+      body: {
+        status: statuses.every((status) => status.lastError === null) ? "ok" : "degraded",
+        indexers: statuses,
+      },
+    };
+  },
+  // Readiness: every indexer completed a run and the dynamic integrations are loaded
+  "/ready": async () => {
+    const indexersReady = indexers.map((indexer) => {
+      const status = indexer.getStatus();
+      return { chain: status.chain, ready: status.lastSuccessAt !== null };
+    });
+    const ready = !dynamicInstanceManager.loading && indexersReady.every((indexer) => indexer.ready);
+    return {
+      status: ready ? 200 : 503,
+      body: { ready, integrationsLoaded: !dynamicInstanceManager.loading, indexers: indexersReady },
+    };
+  },
+  "/cursors": async () => {
+    const checkpoints = await prismaClient.checkpoint.findMany({ orderBy: { chain: "asc" } });
+    return {
+      status: 200,
+      body: checkpoints.map(({ chain, oracleAddress, cursor, updateAt }) => ({
+        chain,
+        oracleAddress,
+        cursor,
+        updateAt,
+      })),
+    };
+  },
+  "/events": async (url) => {
+    const status = url.searchParams.get("status");
+    const limit = Number(url.searchParams.get("limit") ?? DEFAULT_EVENTS_LIMIT);
+    if ((status !== null && Number.isNaN(Number(status))) || !Number.isInteger(limit) || limit <= 0) {
+      return { status: 400, body: { error: "`status` and `limit` must be integers" } };
+    }
+
+    const events = await prismaClient.events.findMany({
+      where: {
+        status: status === null ? undefined : Number(status),
+        chain: url.searchParams.get("chain") ?? undefined,
+        requestId: url.searchParams.get("request_id") ?? undefined,
+      },
+      orderBy: { indexedAt: "desc" },
+      take: Math.min(limit, MAX_EVENTS_LIMIT),
+    });
+    return { status: 200, body: events };
+  },
+  // Public key consumers use to verify the attestation of fulfillments
+  "/attestation": async () => {
+    if (!env.ecdsaPrivateKey) {
+      return { status: 404, body: { error: "Attestations are disabled" } };
+    }
+    return { status: 200, body: { publicKey: getAttestationPublicKey(env.ecdsaPrivateKey) } };
+  },
+  "/hosts": async () => {
+    if (dynamicInstanceManager.loading) {
+      return { status: 503, body: { error: "Integrations are still loading" } };
+    }
+    const hosts = Array.from(dynamicInstanceManager.getAllInstances().entries()).map(([domain, instance]) => ({
+      domain,
+      paths: instance.paths,
+      requestRate: instance.getRequestRate,
+    }));
+    return { status: 200, body: hosts };
+  },
+  // Prometheus scrape endpoint
+  "/metrics": async () => ({ status: 200, body: await registry.metrics(), contentType: registry.contentType }),
+});
+
+/**
+ * Builds the routes of the admin API that change the state of the orchestrator.
+ *
+ * @returns {Record<string, Route>} The routes, keyed by path.
+ */
+export const createActions = (): Record<string, Route> => ({
+  // Rebuilds the integration handlers, e.g. after rotating a token
+  "/reload": async () => {
+    await dynamicInstanceManager.reload();
+    return { status: 200, body: { reloaded: true, hosts: dynamicInstanceManager.getAllInstances().size } };
+  },
+});
+
+/**
+ * Starts the local admin/status HTTP API.
+ *
+ * @param {Indexer[]} indexers - The indexers running in this process.
+ */
+export const startAdminServer = (indexers: Indexer[]) => {
+  const routes: Record<Method, Record<string, Route>> = { GET: createRoutes(indexers), POST: createActions() };
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    // The Host header is not trusted, the path is parsed against a fixed base
+    let url: URL;
+    try {
+      url = new URL(req.url ?? "/", "http://localhost");
+    } catch {
+      return send(res, { status: 400, body: { error: "Bad Request" } });
+    }
+    const path = url.pathname.replace(/\/+$/, "") || "/";
+
+    if (!routes.GET[path] && !routes.POST[path]) {
+      return send(res, { status: 404, body: { error: "Not Found" } });
+    }
+    const route = routes[req.method as Method]?.[path];
+    if (!route) {
+      return send(res, { status: 405, body: { error: "Method Not Allowed" } });
+    }
+    try {
+      send(res, await route(url));
+    } catch (err: any) {
+      log.error("Admin API request failed", { path: url.pathname, err: err.message });
+      send(res, { status: 500, body: { error: "Internal Server Error" } });
+    }
+  });
+
+  // A failure to bind, e.g. EADDRINUSE, disables the admin API without stopping the indexers
+  server.on("error", (err) => {
+    log.error("Admin API server error", { err: err.message });
+  });
+  server.listen(env.admin.port, env.admin.host, () => {
+    log.info(`Admin API listening on http://${env.admin.host}:${env.admin.port}`);
+  });
+  return server;
+};
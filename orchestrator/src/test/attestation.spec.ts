@@ -0,0 +1,28 @@
+import { getAttestationPublicKey, recoverAttestationSigner, signAttestation, verifyAttestation } from "../attestation";
+
+describe("Attestation", () => {
+  const privateKey = "0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318";
+  const payload = {
+    request_id: "0x8b8e5f7c3b0a1b2c3d4e5f60718293a4b5c6d7e8f90112233445566778899aab",
+    url: "https://api.x.com/2/users/by/username/elonmusk?user.fields=public_metrics",
+    pick: ".data.public_metrics.followers_count",
+    status: 200,
+    result: "205512345",
+  };
+
+  test("signature verifies against the orchestrator public key", () => {
+    const signature = signAttestation(payload, privateKey);
+    expect(signature).toMatch(/^0x[0-9a-f]{130}$/);
+    expect(verifyAttestation(payload, signature, getAttestationPublicKey(privateKey))).toBe(true);
+    expect(recoverAttestationSigner(payload, signature)).toBe(getAttestationPublicKey(privateKey));
+  });
+
+  test("signature does not verify once any attested field changes", () => {
+    const signature = signAttestation(payload, privateKey);
+    const publicKey = getAttestationPublicKey(privateKey);
+    expect(verifyAttestation({ ...payload, result: "1" }, signature, publicKey)).toBe(false);
+    expect(verifyAttestation({ ...payload, status: 500 }, signature, publicKey)).toBe(false);
+    expect(verifyAttestation({ ...payload, pick: "." }, signature, publicKey)).toBe(false);
+    expect(verifyAttestation(payload, "0xdeadbeef", publicKey)).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { BEARER_AUTH, applyAuthStrategy, templateSecrets } from "../integrations/auth";
+
+describe("applyAuthStrategy", () => {
+  const request = {
+    method: "GET",
+    url: "https://api.example.com/v1/items?q=verity",
+    headers: { Accept: "application/json" },
+  };
+
+  test("sends a Bearer token by default", () => {
+    expect(applyAuthStrategy(request, BEARER_AUTH, "secret").headers).toEqual({
+      Accept: "application/json",
+      Authorization: "Bearer secret",
+    });
+  });
+
+  test("renders header templates from the secrets", () => {
+    const signed = applyAuthStrategy(
+      request,
+      {
+        headers: { "x-api-key": "{{ apiKey }}", "x-app-id": "app-{{appId}}" },
+        secrets: { apiKey: "key", appId: "42" },
+      },
+      "",
+    );
+
+    expect(signed.headers).toEqual({ Accept: "application/json", "x-api-key": "key", "x-app-id": "app-42" });
+    expect(signed.url).toBe(request.url);
+  });
+
+  test("injects query parameters", () => {
+    const signed = applyAuthStrategy(request, { query: { api_key: "{{token}}" } }, "secret");
+
+    expect(signed.url).toBe("https://api.example.com/v1/items?q=verity&api_key=secret");
+    expect(signed.headers).toEqual(request.headers);
+  });
+
+  test("sends basic credentials", () => {
+    const signed = applyAuthStrategy(
+      request,
+      {
+        basic: { username: "{{username}}", password: "{{password}}" },
+        secrets: { username: "user", password: "p{{a}}ss" },
+      },
+      "",
+    );
+
+    expect(signed.headers.Authorization).toBe(`Basic ${Buffer.from("user:p{{a}}ss").toString("base64")}`);
+  });
+
+  test("rejects unknown secrets", () => {
+    expect(() => applyAuthStrategy(request, { headers: { "x-api-key": "{{apiKey}}" } }, "")).toThrow(
+      "Unknown secret apiKey",
+    );
+  });
+});
+
+describe("templateSecrets", () => {
+  test("lists the secrets referenced by a strategy", () => {
+    expect(
+      templateSecrets({ headers: { "x-api-key": "{{apiKey}}" }, query: { sig: "{{apiKey}}-{{ appId }}" } }),
+    ).toEqual(["apiKey", "appId"]);
+  });
+});
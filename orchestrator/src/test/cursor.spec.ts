@@ -0,0 +1,22 @@
+import { validateCursor } from "../indexer/cursor";
+
+describe("validateCursor", () => {
+  test("accepts the cursors of each chain", () => {
+    expect(() => validateCursor("ROOCH-testnet", "42")).not.toThrow();
+    expect(() => validateCursor("APTOS-mainnet", "1000")).not.toThrow();
+    expect(() => validateCursor("APTOS-mainnet", "1000:3")).not.toThrow();
+    expect(() => validateCursor("SUI-testnet", '{"txDigest":"4pLT","eventSeq":"0"}')).not.toThrow();
+    expect(() => validateCursor("SUI-testnet", "0")).not.toThrow();
+  });
+
+  test("rejects cursors in the format of another chain", () => {
+    expect(() => validateCursor("ROOCH-testnet", "1000:3")).toThrow("Invalid cursor 1000:3");
+    expect(() => validateCursor("APTOS-mainnet", "abc")).toThrow("Invalid cursor abc");
+    expect(() => validateCursor("SUI-testnet", "42")).toThrow("Invalid cursor 42");
+    expect(() => validateCursor("SUI-testnet", '{"digest":"4pLT"}')).toThrow("expected a JSON encoded event id");
+  });
+
+  test("rejects unknown chains", () => {
+    expect(() => validateCursor("SOLANA-mainnet", "0")).toThrow("Unknown chain SOLANA-mainnet");
+  });
+});
@@ -12,6 +12,23 @@ const convertToEnvFormat = (obj: Record<string, string | undefined>): string =>
 
 const envFilePath = path.resolve(__dirname, ".env.");
 
+// Environment of the test process, before any .env file is loaded
+const initialEnv = { ...process.env };
+
+const APTOS_ADDRESS = "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6c";
+
+// Loads a fresh copy of the env module, as it reads the variables once when first imported
+const loadEnvModule = async (vars: Record<string, string>) => {
+  process.env = { ...initialEnv, ...vars };
+  let module: any;
+  await jest.isolateModulesAsync(async () => {
+    module = await import("../env");
+  });
+  return module;
+};
+
+const loadEnv = async (vars: Record<string, string>) => (await loadEnvModule(vars)).default;
+
 // Function to create .env file
 const createEnvFile = (config: Record<string, string | undefined>, envFilePath: string) => {
   fs.writeFileSync(envFilePath, convertToEnvFormat(config), "utf8");
@@ -115,3 +132,151 @@ describe(".env Check", () => {
     });
   });
 });
+
+describe("env module", () => {
+  afterEach(() => {
+    process.env = { ...initialEnv };
+  });
+
+  test("SUI is only indexed when listed in CHAINS", async () => {
+    const env = await loadEnv({
+      ROOCH_ORACLE_ADDRESS: APTOS_ADDRESS,
+      ROOCH_PRIVATE_KEY: APTOS_ADDRESS,
+      APTOS_ORACLE_ADDRESS: APTOS_ADDRESS,
+      APTOS_PRIVATE_KEY: APTOS_ADDRESS,
+    });
+
+    expect(env.chains).toEqual(["ROOCH", "APTOS"]);
+    expect(env.deployments.map(({ chain }: { chain: string }) => chain)).not.toContain("SUI");
+  });
+
+  test("reads the integration tokens from the .env file only", async () => {
+    const dotenvPath = envFilePath + randomUUID();
+    createEnvFile({ X_BEARER_TOKEN: "rotated", CHAINS: "SUI" }, dotenvPath);
+    const { readIntegrationTokens } = await loadEnvModule({
+      CHAINS: "APTOS",
+      APTOS_ORACLE_ADDRESS: APTOS_ADDRESS,
+      APTOS_PRIVATE_KEY: APTOS_ADDRESS,
+      OPEN_AI_TOKEN: "openai",
+      AZURE_TOKEN: "",
+    });
+
+    try {
+      expect(readIntegrationTokens(dotenvPath)).toEqual({
+        xBearerToken: "rotated",
+        openAIToken: "openai",
+        azureToken: "",
+      });
+      expect(process.env.X_BEARER_TOKEN).toBe(initialEnv.X_BEARER_TOKEN);
+      expect(process.env.CHAINS).toBe("APTOS");
+    } finally {
+      deleteEnvFile(dotenvPath);
+    }
+  });
+
+  test("nodit event source requires APTOS_NODIT_KEY", async () => {
+    await expect(
+      loadEnv({
+        CHAINS: "APTOS",
+        APTOS_ORACLE_ADDRESS: APTOS_ADDRESS,
+        APTOS_PRIVATE_KEY: APTOS_ADDRESS,
+        APTOS_EVENT_SOURCE: "nodit",
+      }),
+    ).rejects.toThrow('"aptosNoditKey" is required by the nodit event source');
+  });
+
+  test("APTOS_NODIT_KEY not required by the fullnode event source", async () => {
+    const env = await loadEnv({
+      CHAINS: "APTOS",
+      APTOS_ORACLE_ADDRESS: APTOS_ADDRESS,
+      APTOS_PRIVATE_KEY: APTOS_ADDRESS,
+      APTOS_EVENT_SOURCE: "fullnode",
+    });
+
+    expect(env.deployments).toEqual([expect.objectContaining({ chain: "APTOS", eventSource: "fullnode" })]);
+  });
+
+  test("aptos settings per network", async () => {
+    const env = await loadEnv({
+      CHAINS: "APTOS",
+      APTOS_CHAIN_ID: "testnet,mainnet",
+      APTOS_ORACLE_ADDRESS: APTOS_ADDRESS,
+      APTOS_PRIVATE_KEY: APTOS_ADDRESS,
+      APTOS_MAINNET_PRIVATE_KEY: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6d",
+      APTOS_MAINNET_INDEXER_CRON: "*/10 * * * * *",
+    });
+
+    expect(env.deployments).toEqual([
+      expect.objectContaining({
+        network: "testnet",
+        privateKey: APTOS_ADDRESS,
+        indexerCron: "*/5 * * * * *",
+      }),
+      expect.objectContaining({
+        network: "mainnet",
+        privateKey: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6d",
+        indexerCron: "*/10 * * * * *",
+      }),
+    ]);
+  });
+
+  test("config file replaces the flat chain variables", async () => {
+    const env = await loadEnv({
+      CONFIG_FILE: path.resolve(__dirname, "../../../config.sample.yaml"),
+      ROOCH_TESTNET_PRIVATE_KEY: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6c",
+      ROOCH_MAINNET_PRIVATE_KEY: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6d",
+      APTOS_TESTNET_PRIVATE_KEY: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6e",
+    });
+
+    expect(env.deployments).toEqual([
+      expect.objectContaining({
+        chain: "ROOCH",
+        network: "testnet",
+        privateKey: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6c",
+      }),
+      expect.objectContaining({
+        chain: "ROOCH",
+        network: "mainnet",
+        privateKey: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6d",
+      }),
+      expect.objectContaining({
+        chain: "APTOS",
+        network: "testnet",
+        privateKey: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6e",
+        eventSource: "indexer",
+      }),
+    ]);
+  });
+
+  test("config file deploys each chain and network once", async () => {
+    const configPath = `${envFilePath}${randomUUID()}.yaml`;
+    const deployment = {
+      chain: "APTOS",
+      network: "testnet",
+      privateKey: "env:APTOS_TESTNET_PRIVATE_KEY",
+    };
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        deployments: [
+          { ...deployment, oracleAddress: APTOS_ADDRESS },
+          { ...deployment, oracleAddress: "0xf81628c3bf85c3fc628f29a3739365d4428101fbbecca0dcc7e3851f34faea6d" },
+        ],
+      }),
+    );
+
+    try {
+      await expect(loadEnv({ CONFIG_FILE: configPath, APTOS_TESTNET_PRIVATE_KEY: APTOS_ADDRESS })).rejects.toThrow(
+        "contains more than one deployment of APTOS testnet",
+      );
+    } finally {
+      deleteEnvFile(configPath);
+    }
+  });
+
+  test("config file signer keys must reference a key", async () => {
+    await expect(loadEnv({ CONFIG_FILE: path.resolve(__dirname, "../../../config.sample.yaml") })).rejects.toThrow(
+      'must reference a non-empty key as "env:NAME" or "file:PATH"',
+    );
+  });
+});
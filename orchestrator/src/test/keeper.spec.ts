@@ -0,0 +1,33 @@
+import { decryptSecret, encryptSecret, getMasterKeyId, isEncryptedSecret, isEncryptedWith } from "../keeper";
+
+describe("Keeper secrets", () => {
+  const masterKey = "0x5f1e3c4a1b2d3e4f5a6b7c8d9e0f11223344556677889900aabbccddeeff0011";
+  const previousMasterKey = Buffer.alloc(32, 7).toString("base64");
+  const secret = "roochsecretkey1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq";
+
+  test("secrets round-trip and are not stored in plain text", () => {
+    const encrypted = encryptSecret(secret, masterKey);
+    expect(encrypted).not.toContain(secret);
+    expect(isEncryptedSecret(encrypted)).toBe(true);
+    expect(isEncryptedWith(encrypted, masterKey)).toBe(true);
+    expect(decryptSecret(encrypted, [masterKey])).toBe(secret);
+    // A fresh IV is used on every encryption
+    expect(encryptSecret(secret, masterKey)).not.toBe(encrypted);
+  });
+
+  test("secrets encrypted with a previous master key are decrypted after a rotation", () => {
+    const encrypted = encryptSecret(secret, previousMasterKey);
+    expect(isEncryptedWith(encrypted, masterKey)).toBe(false);
+    expect(decryptSecret(encrypted, [masterKey, previousMasterKey])).toBe(secret);
+    expect(() => decryptSecret(encrypted, [masterKey])).toThrow(getMasterKeyId(previousMasterKey));
+  });
+
+  test("plain secrets are returned unchanged and tampered ones are rejected", () => {
+    expect(decryptSecret(secret, [masterKey])).toBe(secret);
+    const encrypted = encryptSecret(secret, masterKey);
+    const parts = encrypted.split(":");
+    parts[5] = Buffer.from("tampered").toString("base64");
+    expect(() => decryptSecret(parts.join(":"), [masterKey])).toThrow();
+    expect(() => encryptSecret(secret, "0x1234")).toThrow("32 bytes");
+  });
+});
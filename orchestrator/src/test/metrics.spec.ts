@@ -0,0 +1,14 @@
+import { TokenBucket } from "../integrations/rateLimiter";
+import { registry } from "../metrics";
+
+describe("metrics", () => {
+  test("records the time requests wait for their rate limiter", async () => {
+    const bucket = new TokenBucket("api.metrics.test", { rate: 0 });
+
+    await bucket.acquire();
+
+    const metrics = await registry.metrics();
+    expect(metrics).toContain("# TYPE verity_rate_limit_wait_seconds histogram");
+    expect(metrics).toContain('verity_rate_limit_wait_seconds_count{limiter="api.metrics.test"} 1');
+  });
+});
@@ -0,0 +1,57 @@
+import { createHmac } from "node:crypto";
+import OAuth1APIHandler from "../integrations/oauth1";
+
+describe("OAuth1APIHandler", () => {
+  const credentials = {
+    consumerKey: "xvz1evFS4wEEPTGEFPHBog",
+    consumerSecret: "kAcSOqF21Fu85e7zjz7ZN2U4ZRhfV3WpwPAoE3Z7kBw",
+    token: "370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb",
+    tokenSecret: "LswwdoUaIvS8ltyTt5jkRh4J50vUPVVHtR2YPi5kE",
+  };
+  const handler = new OAuth1APIHandler(credentials, ["api.x.com"], ["/1.1/"], 0);
+
+  test("signs the method, base URL and sorted parameters", () => {
+    const header = handler.sign(
+      "get",
+      "https://api.x.com/1.1/statuses/show.json?include_entities=true&id=20",
+      "kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg",
+      1318622958,
+    );
+
+    const base = [
+      "GET",
+      encodeURIComponent("https://api.x.com/1.1/statuses/show.json"),
+      encodeURIComponent(
+        [
+          "id=20",
+          "include_entities=true",
+          `oauth_consumer_key=${credentials.consumerKey}`,
+          "oauth_nonce=kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg",
+          "oauth_signature_method=HMAC-SHA1",
+          "oauth_timestamp=1318622958",
+          `oauth_token=${credentials.token}`,
+          "oauth_version=1.0",
+        ].join("&"),
+      ),
+    ].join("&");
+    const signature = createHmac("sha1", `${credentials.consumerSecret}&${credentials.tokenSecret}`)
+      .update(base)
+      .digest("base64");
+
+    expect(header.startsWith("OAuth ")).toBe(true);
+    expect(header).toContain(`oauth_signature="${encodeURIComponent(signature)}"`);
+    expect(header).toContain(`oauth_token="${credentials.token}"`);
+  });
+
+  test("omits the token when signing with consumer credentials only", () => {
+    const consumerOnly = new OAuth1APIHandler(
+      { consumerKey: credentials.consumerKey, consumerSecret: credentials.consumerSecret },
+      ["api.x.com"],
+      ["/1.1/"],
+      0,
+    );
+    expect(consumerOnly.sign("GET", "https://api.x.com/1.1/help/configuration.json", "nonce", 1)).not.toContain(
+      "oauth_token",
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import OAuth2APIHandler from "../integrations/oauth2";
+
+describe("OAuth2APIHandler", () => {
+  let server: Server;
+  let tokenUrl: string;
+
+  beforeAll(async () => {
+    // Token endpoint rejecting the client credentials, with rate limit headers
+    server = createServer((_req, res) => {
+      res.writeHead(401, { "retry-after": "3600", "content-type": "application/json" });
+      res.end(JSON.stringify({ error: "invalid_client" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oauth/token`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  test("reports token endpoint failures as authorization errors, not upstream responses", async () => {
+    const handler = new OAuth2APIHandler(
+      { clientId: "client", clientSecret: "secret", tokenUrl },
+      ["api.oauth2.example"],
+      ["/v1/"],
+      0,
+    );
+    const observe = jest.spyOn((handler as any).limiter, "observe");
+
+    const response = await handler.submitRequest({
+      oracle: "0x1",
+      request_id: "0x2",
+      pick: ".",
+      params: { url: "https://api.oauth2.example/v1/items", method: "GET", headers: "{}", body: "{}" },
+      fullData: {},
+    });
+
+    expect(response).toEqual({
+      status: 500,
+      message: `Unable to authorize requests to api.oauth2.example: ${tokenUrl} responded with 401`,
+      cached: undefined,
+    });
+    expect(observe).not.toHaveBeenCalled();
+  });
+});
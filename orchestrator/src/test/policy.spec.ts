@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+import APIBaseIntegration from "../integrations/base";
+import {
+  checkRequestPolicy,
+  compileRequestPolicy,
+  limitResponseSize,
+  selectRequestPolicy,
+  stripHeaders,
+} from "../integrations/policy";
+
+const policy = compileRequestPolicy({
+  domain: "api.openai.com",
+  path: "/v1/chat/completions",
+  methods: ["post"],
+  allowedHeaders: ["Content-Type"],
+  strippedHeaders: ["X-Debug"],
+  bodySchema: {
+    type: "object",
+    properties: { model: { type: "string" }, messages: { type: "array" } },
+    required: ["messages"],
+  },
+  models: ["gpt-4o", "gpt-4o-mini"],
+  maxBodySize: 100,
+  maxResponseSize: null,
+  oversizedResponse: "reject",
+});
+
+const check = (request: Partial<{ method: string; headers: Record<string, string>; body: string | null }>) =>
+  checkRequestPolicy(policy, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ model: "gpt-4o", messages: [] }),
+    ...request,
+  });
+
+describe("checkRequestPolicy", () => {
+  test("allows requests matching the policy", () => {
+    expect(check({})).toBeNull();
+  });
+
+  test("rejects requests with a specific status", () => {
+    expect(check({ method: "GET" })?.status).toBe(405);
+    expect(check({ headers: { "x-custom": "1" } })?.status).toBe(403);
+    expect(check({ body: JSON.stringify({ model: "gpt-4o", messages: ["x".repeat(100)] }) })?.status).toBe(413);
+    expect(check({ body: "{" })?.status).toBe(422);
+    expect(check({ body: JSON.stringify({ model: "gpt-4o" }) })?.status).toBe(422);
+    expect(check({ body: JSON.stringify({ model: "o1", messages: [] }) })).toEqual({
+      status: 403,
+      message: "Model o1 is not allowed",
+    });
+  });
+});
+
+describe("stripHeaders", () => {
+  test("always strips the credentials, and the headers stripped by the policy", () => {
+    expect(
+      stripHeaders({ authorization: "Bearer mine", "X-Debug": "1", "Content-Type": "application/json" }, policy),
+    ).toEqual({ "Content-Type": "application/json" });
+    expect(stripHeaders({ Cookie: "session", "X-Debug": "1" }, null)).toEqual({ "X-Debug": "1" });
+  });
+});
+
+describe("selectRequestPolicy", () => {
+  test("selects the longest matching path prefix", () => {
+    const root = compileRequestPolicy({ ...policy, path: "/v1/", bodySchema: null });
+
+    expect(selectRequestPolicy([root, policy], "/v1/chat/completions")).toBe(policy);
+    expect(selectRequestPolicy([root, policy], "/v1/models")).toBe(root);
+    expect(selectRequestPolicy([root, policy], "/v2/models")).toBeNull();
+  });
+});
+
+describe("APIBaseIntegration", () => {
+  test("enforces the policy of its host before sending the request", async () => {
+    const handler = new APIBaseIntegration("token", ["api.openai.com"], ["/v1/"], 0, { policies: [policy] });
+
+    const response = await handler.submitRequest({
+      oracle: "0x1",
+      request_id: "0x2",
+      pick: ".",
+      params: { url: "https://api.openai.com/v1/chat/completions", method: "DELETE", headers: "{}", body: "" },
+      fullData: {},
+    });
+    expect(response).toEqual({ status: 405, message: "Method DELETE is not allowed" });
+  });
+
+  test("limits the size of every result, errors included", async () => {
+    const handler = new APIBaseIntegration("token", ["api.openai.com"], ["/v1/"], 0, {
+      policies: [policy],
+      maxResponseSize: 10,
+    });
+
+    const response = await handler.submitRequest({
+      oracle: "0x1",
+      request_id: "0x2",
+      pick: ".",
+      params: { url: "https://api.openai.com/v1/chat/completions", method: "DELETE", headers: "{}", body: "" },
+      fullData: {},
+    });
+    expect(response).toEqual({ status: 507, message: "Response of 30 bytes exceeds the limit of 10 bytes" });
+  });
+});
+
+describe("limitResponseSize", () => {
+  const response = { status: 200, message: JSON.stringify({ text: "héllo wörld" }) };
+
+  test("leaves results within the limit untouched", () => {
+    expect(limitResponseSize(response, 0, "reject")).toBe(response);
+    expect(limitResponseSize(response, 100, "reject")).toBe(response);
+  });
+
+  test("rejects oversized results with a deterministic status", () => {
+    expect(limitResponseSize(response, 20, "reject")).toEqual({
+      status: 507,
+      message: "Response of 30 bytes exceeds the limit of 20 bytes",
+    });
+  });
+
+  test("truncates oversized results to the limit once JSON encoded", () => {
+    const truncated = limitResponseSize(response, 20, "truncate");
+
+    expect(truncated).toEqual({ status: 200, message: '{"text":"héllo' });
+    expect(Buffer.byteLength(JSON.stringify(truncated.message))).toBeLessThanOrEqual(20);
+  });
+
+  test("hashes oversized results", () => {
+    expect(limitResponseSize(response, 20, "hash")).toEqual({
+      status: 200,
+      message: `sha256:${createHash("sha256").update(response.message).digest("hex")}`,
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { createLimiter, processInOrder } from "../indexer/pool";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createLimiter", () => {
+  test("never runs more tasks than its concurrency", async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(
+      [30, 10, 20, 5, 15].map((ms) =>
+        limit(async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await sleep(ms);
+          active--;
+        }),
+      ),
+    );
+
+    expect(maxActive).toBe(2);
+  });
+});
+
+describe("processInOrder", () => {
+  test("commits results in order while processing concurrently", async () => {
+    const started: number[] = [];
+    const committed: number[] = [];
+
+    await processInOrder(
+      [40, 5, 20, 10],
+      4,
+      () => null,
+      async (ms) => {
+        started.push(ms);
+        await sleep(ms);
+        return async () => {
+          committed.push(ms);
+        };
+      },
+    );
+
+    expect(started).toEqual([40, 5, 20, 10]);
+    expect(committed).toEqual([40, 5, 20, 10]);
+  });
+
+  test("processes items sharing an ordering key sequentially", async () => {
+    const finished: string[] = [];
+    const items = [
+      { id: "a1", key: "a", ms: 30 },
+      { id: "b1", key: "b", ms: 5 },
+      { id: "a2", key: "a", ms: 1 },
+    ];
+
+    await processInOrder(
+      items,
+      4,
+      (item) => item.key,
+      async (item) => {
+        await sleep(item.ms);
+        finished.push(item.id);
+        return null;
+      },
+    );
+
+    expect(finished).toEqual(["b1", "a1", "a2"]);
+  });
+
+  test("stops committing at the first failed item", async () => {
+    const committed: number[] = [];
+
+    const result = await processInOrder(
+      [1, 2, 3],
+      2,
+      () => null,
+      async (item) => {
+        if (item === 2) {
+          throw new Error("boom");
+        }
+        return async () => {
+          committed.push(item);
+        };
+      },
+    );
+
+    expect(result).toBe(false);
+    expect(committed).toEqual([1]);
+  });
+
+  test("starts no item once one failed", async () => {
+    const started: number[] = [];
+
+    await processInOrder(
+      [1, 2, 3, 4],
+      1,
+      () => null,
+      async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error("boom");
+        }
+        return null;
+      },
+    );
+
+    expect(started).toEqual([1, 2]);
+  });
+
+  test("stops committing once a commit fails", async () => {
+    const committed: number[] = [];
+
+    const result = await processInOrder(
+      [1, 2, 3],
+      2,
+      () => null,
+      async (item) => async () => {
+        if (item === 2) {
+          throw new Error("database unavailable");
+        }
+        committed.push(item);
+      },
+    );
+
+    expect(result).toBe(false);
+    expect(committed).toEqual([1]);
+  });
+});
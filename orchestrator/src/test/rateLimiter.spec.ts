@@ -0,0 +1,60 @@
+import { QuotaExceededError, TokenBucket } from "../integrations/rateLimiter";
+
+describe("TokenBucket", () => {
+  const now = Date.UTC(2026, 9, 19, 12);
+
+  test("lets the burst through, then spaces requests by the rate", () => {
+    const bucket = new TokenBucket("api.x.com", { rate: 1000, burst: 2 }, now);
+
+    expect(bucket.reserve(now)).toBe(0);
+    expect(bucket.reserve(now)).toBe(0);
+    expect(bucket.reserve(now)).toBe(1000);
+    expect(bucket.reserve(now)).toBe(2000);
+  });
+
+  test("refills tokens over time", () => {
+    const bucket = new TokenBucket("api.x.com", { rate: 1000 }, now);
+
+    expect(bucket.reserve(now)).toBe(0);
+    expect(bucket.reserve(now + 400)).toBe(600);
+    expect(bucket.reserve(now + 5000)).toBe(0);
+  });
+
+  test("enforces the daily quota until the next UTC day", () => {
+    const bucket = new TokenBucket("api.openai.com", { rate: 0, dailyQuota: 2 }, now);
+
+    bucket.reserve(now);
+    bucket.reserve(now);
+    expect(() => bucket.reserve(now)).toThrow(QuotaExceededError);
+    expect(bucket.reserve(now + 12 * 60 * 60 * 1000)).toBe(0);
+  });
+
+  test("holds requests back according to the upstream headers", () => {
+    const retryAfter = new TokenBucket("api.x.com", { rate: 0 }, now);
+    retryAfter.observe({ "retry-after": "30" }, now);
+    expect(retryAfter.reserve(now)).toBe(30 * 1000);
+
+    const xReset = new TokenBucket("api.x.com", { rate: 0 }, now);
+    xReset.observe({ "x-rate-limit-remaining": "0", "x-rate-limit-reset": String(now / 1000 + 900) }, now);
+    expect(xReset.reserve(now)).toBe(900 * 1000);
+
+    const openAIReset = new TokenBucket("api.openai.com", { rate: 0 }, now);
+    openAIReset.observe({ "x-ratelimit-remaining-requests": "0", "x-ratelimit-reset-requests": "1m30s" }, now);
+    expect(openAIReset.reserve(now)).toBe(90 * 1000);
+
+    const remaining = new TokenBucket("api.x.com", { rate: 0 }, now);
+    remaining.observe({ "x-rate-limit-remaining": "10", "x-rate-limit-reset": String(now / 1000 + 900) }, now);
+    expect(remaining.reserve(now)).toBe(0);
+  });
+
+  test("spaces the requests held back by the upstream by the rate", () => {
+    const bucket = new TokenBucket("api.x.com", { rate: 1000, burst: 2 }, now);
+    bucket.observe({ "retry-after": "30" }, now);
+
+    expect(bucket.reserve(now)).toBe(30 * 1000);
+    expect(bucket.reserve(now)).toBe(30 * 1000);
+    expect(bucket.reserve(now + 500)).toBe(30 * 1000 + 500);
+    expect(bucket.reserve(now + 500)).toBe(31 * 1000 + 500);
+    expect(bucket.reserve(now + 40 * 1000)).toBe(0);
+  });
+});
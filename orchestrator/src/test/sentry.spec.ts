@@ -0,0 +1,38 @@
+import { scrubEvent, scrubSecrets } from "../sentry";
+
+describe("scrubSecrets", () => {
+  test("redacts secret headers at any depth", () => {
+    const scrubbed = scrubSecrets({
+      request: { headers: { Authorization: "Bearer secret", "x-api-key": "secret", Accept: "application/json" } },
+      cookies: "session=secret",
+    });
+
+    expect(scrubbed).toEqual({
+      request: { headers: { Authorization: "[Filtered]", "x-api-key": "[Filtered]", Accept: "application/json" } },
+      cookies: "[Filtered]",
+    });
+  });
+
+  test("redacts secret query parameters", () => {
+    expect(scrubSecrets("https://api.example.com/v1?q=verity&api_key=secret&access_token=secret#top")).toBe(
+      "https://api.example.com/v1?q=verity&api_key=[Filtered]&access_token=[Filtered]#top",
+    );
+  });
+});
+
+describe("scrubEvent", () => {
+  test("scrubs the request, extra data and breadcrumbs of an event", () => {
+    const event = scrubEvent({
+      request: { url: "https://api.example.com/v1?key=secret", headers: { authorization: "Bearer secret" } },
+      extra: { status: 500, headers: { "api-key": "secret" } },
+      breadcrumbs: [{ category: "http", data: { url: "https://api.x.com/2/tweets?token=secret" } }],
+    });
+
+    expect(event.request).toEqual({
+      url: "https://api.example.com/v1?key=[Filtered]",
+      headers: { authorization: "[Filtered]" },
+    });
+    expect(event.extra).toEqual({ status: 500, headers: { "api-key": "[Filtered]" } });
+    expect(event.breadcrumbs?.[0].data).toEqual({ url: "https://api.x.com/2/tweets?token=[Filtered]" });
+  });
+});
@@ -0,0 +1,27 @@
+import { advertises, servedPaths } from "../integrations/served";
+
+describe("servedPaths", () => {
+  test("serves the narrower of overlapping configured and advertised paths", () => {
+    expect(servedPaths(["/2/"], ["/2/tweets", "/3/users"])).toEqual(["/2/tweets"]);
+    expect(servedPaths(["/v1/chat/completions"], ["/v1/"])).toEqual(["/v1/chat/completions"]);
+    expect(servedPaths(["/v1/"], [])).toEqual([]);
+  });
+});
+
+describe("advertises", () => {
+  const advertised = new Map([
+    ["api.x.com", ["/2/tweets"]],
+    ["api.openai.com", ["/v1/"]],
+  ]);
+
+  test("covers the URLs under an advertised prefix of their host", () => {
+    expect(advertises(advertised, new URL("https://api.x.com/2/tweets/20"))).toBe(true);
+    expect(advertises(advertised, new URL("https://API.OPENAI.COM/v1/chat/completions"))).toBe(true);
+  });
+
+  test("rejects the paths and hosts not advertised", () => {
+    expect(advertises(advertised, new URL("https://api.x.com/2/users/by"))).toBe(false);
+    expect(advertises(advertised, new URL("https://api.twitter.com/2/tweets/20"))).toBe(false);
+    expect(advertises(new Map(), new URL("https://api.openai.com/v1/chat/completions"))).toBe(false);
+  });
+});
@@ -0,0 +1,17 @@
+import { describeVMStatus } from "../util";
+
+describe("describeVMStatus", () => {
+  test("reports no failure for executed transactions", () => {
+    expect(describeVMStatus({ type: "executed" })).toBeNull();
+  });
+
+  test("describes the transactions that failed, so their fulfillment is retried", () => {
+    expect(describeVMStatus({ type: "moveabort", location: "0x1::oracles", abort_code: "3" })).toBe(
+      "aborted in 0x1::oracles with code 3",
+    );
+    expect(describeVMStatus({ type: "executionfailure", location: "0x1::oracles", function: 2, code_offset: 7 })).toBe(
+      "execution failure in 0x1::oracles at offset 7",
+    );
+    expect(describeVMStatus({ type: "outofgas" })).toBe("outofgas");
+  });
+});
@@ -1,3 +1,4 @@
+import type { Network } from "@aptos-labs/ts-sdk";
 export type RoochEnv = {
   privateKey: string;
   chainId: string;
@@ -9,12 +10,30 @@ export const ALLOWED_HOST = ["x.com", "api.x.com", "twitter.com", "api.twitter.c
 export const RoochNetworkList = ["testnet", "devnet", "localnet", "mainnet"] as const;
 
 export const AptosNetworkList = ["testnet", "mainnet"] as const;
+export const AptosEventSourceList = ["fullnode", "indexer", "nodit"] as const;
 
-export const ChainList = ["ROOCH", "APTOS"] as const;
+export const SuiNetworkList = ["testnet", "mainnet", "devnet", "localnet"] as const;
+
+export const ChainList = ["ROOCH", "APTOS", "SUI"] as const;
+// Chains indexed when CHAINS is not set, SUI only runs when listed explicitly
+export const DefaultChainList = ["ROOCH", "APTOS"] as const;
+
+// Authentication schemes of the `SupportedUrl.authType` column
+export const AuthType = {
+  BEARER: "BEARER",
+  OAUTH1: "OAUTH1.0",
+  OAUTH2: "OAUTH2.0",
+  // Headers or query parameters templated from the secrets of the row, e.g. an `x-api-key` header
+  API_KEY: "API_KEY",
+  BASIC: "BASIC",
+} as const;
 
 export type RoochNetwork = (typeof RoochNetworkList)[number];
 
 export type AptosNetwork = (typeof AptosNetworkList)[number];
+export type AptosEventSourceName = (typeof AptosEventSourceList)[number];
+
+export type SuiNetwork = (typeof SuiNetworkList)[number];
 
 export type SupportedChain = (typeof ChainList)[number];
 
@@ -143,6 +162,16 @@ export interface JsonRpcResponse<T> {
   result: Result<T>;
 }
 
+export interface IndexerStatus {
+  chain: string;
+  oracleAddress: string;
+  orchestrator: string;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastError: string | null;
+}
+
 export const RequestStatus = {
   INDEXED: 1,
   SUCCESS: 2,
@@ -150,6 +179,9 @@ export const RequestStatus = {
   INVALID_PAYLOAD: 4,
   UNREACHABLE: 5,
   FAILED: 6,
+  DEAD_LETTER: 7,
+  UNDERFUNDED: 8,
+  UNSUPPORTED: 9,
 };
 
 export interface AptosTransactionData {
@@ -201,6 +233,56 @@ export interface AptosBlockMetadataTransaction {
   type: string;
 }
 
+export interface AptosNetworkConfig {
+  chainId: Network;
+  oracleAddress: string;
+  privateKey: string;
+  indexerCron: string;
+  // Fullnode and indexer URLs replacing the defaults of the network, the fullnode is required by the custom network
+  rpcUrl: string;
+  indexerUrl: string;
+  // Where RequestAdded events are read from: the fullnode REST API, the Aptos Indexer GraphQL API or Nodit
+  eventSource: AptosEventSourceName;
+}
+
+export interface ChainDeployment {
+  chain: string;
+  network: string;
+  // Replaces the default RPC URL of the network when set
+  rpcUrl: string;
+  oracleAddress: string;
+  privateKey: string;
+  indexerCron: string;
+  // Aptos only, see AptosNetworkConfig
+  indexerUrl?: string;
+  eventSource?: AptosEventSourceName;
+}
+
+export interface AptosRequestAddedEvent {
+  // Not every source exposes the transaction hash
+  tx_hash: string | null;
+  tx_version: number;
+  // Position of the event within its transaction
+  event_index: number;
+  type: string;
+  data: {
+    [key: string]: any;
+  };
+}
+
+export interface AptosEventRecord {
+  event_id: {
+    event_handle_id: string;
+    event_seq: number;
+  };
+  event_index: number;
+  event_data: {
+    [key: string]: any;
+  };
+  event_type: string;
+  decoded_event_data: string;
+}
+
 export interface AptosRequestEvent {
   creator: string;
   notify: {
@@ -216,3 +298,16 @@ export interface AptosRequestEvent {
   pick: string;
   request_id: string;
 }
+
+export interface SuiRequestEvent {
+  params: {
+    body: string;
+    headers: string;
+    method: string;
+    url: string;
+  };
+  pick: string;
+  oracle: string;
+  notify: string | null;
+  request_id: string;
+}
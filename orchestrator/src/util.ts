@@ -1,3 +1,5 @@
+import type { KeptVMStatusView } from "@roochnetwork/rooch-sdk";
+
 export function isValidJson(jsonString: string): boolean {
   if (jsonString.trim().length === 0) {
     return true;
@@ -17,3 +19,35 @@ export function decodeNotifyValue(hex: string): string {
 export function decodeNotifyValueFull(hex: string): string {
   return `0x${Buffer.from(hex.slice(2, hex.length), "hex").toString()}`;
 }
+
+/**
+ * Extracts the value of a Move `Option<T>` decoded by the Rooch RPC, whose shape is
+ * `{ vec: [value] }`, possibly wrapped into `{ abilities, type, value }` annotations.
+ */
+export function decodeOptionValue<T = string>(decoded: any): T | null {
+  const vec = decoded?.value?.vec ?? decoded?.vec;
+  const values = vec?.value ?? vec;
+  if (!Array.isArray(values) || values.length === 0) {
+    return null;
+  }
+  return (values.flat()[0] ?? null) as T | null;
+}
+
+/**
+ * Describes why a Rooch transaction failed from the VM status of its execution, e.g. a Move abort, which
+ * is still returned as a receipt.
+ *
+ * @returns {string | null} The reason of the failure, or null if the transaction was executed.
+ */
+export function describeVMStatus(status: KeptVMStatusView): string | null {
+  switch (status.type) {
+    case "executed":
+      return null;
+    case "moveabort":
+      return `aborted in ${status.location} with code ${status.abort_code}`;
+    case "executionfailure":
+      return `execution failure in ${status.location} at offset ${status.code_offset}`;
+    default:
+      return status.type;
+  }
+}
@@ -1,4 +1,6 @@
+import { secp256k1 } from "@noble/curves/secp256k1";
 import Joi from "joi";
+import { getMasterKeyId } from "./keeper";
 
 export const addressValidator = (value: string, helpers: Joi.CustomHelpers<any>) => {
   if (/^0x[a-fA-F0-9]{64}$/.test(value)) {
@@ -12,6 +14,23 @@ export const privateKeyValidator = (value: string, helpers: Joi.CustomHelpers<an
   return value;
 };
 
+export const ecdsaPrivateKeyValidator = (value: string, helpers: Joi.CustomHelpers<any>) => {
+  const key = value.startsWith("0x") ? value.slice(2) : value;
+  if (/^[a-fA-F0-9]{64}$/.test(key) && secp256k1.utils.isValidPrivateKey(key)) {
+    return value;
+  }
+  return helpers.error("any.invalid");
+};
+
+export const masterKeyValidator = (value: string, helpers: Joi.CustomHelpers<any>) => {
+  try {
+    getMasterKeyId(value);
+    return value;
+  } catch {
+    return helpers.error("any.invalid");
+  }
+};
+
 // Define a regex pattern for basic cron expressions (seconds not included)
 const cronPattern =
   /^(\*|([0-5]?[0-9])) (\*|([01]?[0-9]|2[0-3])) (\*|([0-2]?[0-9]|3[0-1])) (\*|([0-1]?[0-9]|1[0-2])) (\*|[0-6])$/;
@@ -29,8 +48,8 @@ export const cronValidator = (value: string, helpers: Joi.CustomHelpers<any>) =>
 };
 
 /* eslint-disable lint/suspicious/noThenProperty */
-export const isRequiredWhenChainsInclude = (schema: Joi.StringSchema<string>, value: string) =>
-  Joi.string().when("chains", {
+export const isRequiredWhenChainsInclude = (schema: Joi.StringSchema<string>, value: string, chains = "chains") =>
+  Joi.string().when(chains, {
     is: Joi.array().items(Joi.string().valid(value)).has(value),
     then: schema.required(), // 'details' is required if 'status' is 'active'
     otherwise: Joi.string().optional().allow("", null).default(""), // 'details' is optional otherwise